@@ -4,7 +4,10 @@ import Toolbar from './components/Toolbar';
 import LayersPanel from './components/LayersPanel';
 import ObjectProperties from './components/ObjectProperties';
 import EditControls from './components/EditControls';
-import CameraPerspectivePanel from './components/CameraPerspectivePanel';
+import ViewCube from './components/ViewCube';
+import HistoryPanel from './components/HistoryPanel';
+import CameraBookmarksPanel from './components/CameraBookmarksPanel';
+import KeymapEditor from './components/KeymapEditor';
 
 function App() {
   return (
@@ -14,7 +17,10 @@ function App() {
       <LayersPanel />
       <ObjectProperties />
       <EditControls />
-      <CameraPerspectivePanel />
+      <ViewCube />
+      <HistoryPanel />
+      <CameraBookmarksPanel />
+      <KeymapEditor />
     </div>
   );
 }
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Copy, X } from 'lucide-react';
+import { useSceneStore } from '../store/sceneStore';
+import * as THREE from 'three';
+
+type Vector3Tuple = [number, number, number];
+
+const MAX_COPIES = 100;
+const AXES = ['x', 'y', 'z'] as const;
+
+const OFFSET_FIELDS = [
+  { key: 'position', label: 'Move', step: 0.25 },
+  { key: 'rotation', label: 'Rotate (°)', step: 5 },
+  { key: 'scale', label: 'Scale (factor)', step: 0.05 }
+] as const;
+
+// Makes a row of copies of the selected objects, each stepped from the one
+// before by the same offset
+const ArrayDuplicateDialog = ({ onClose }: { onClose: () => void }) => {
+  const [count, setCount] = useState(3);
+  const [linked, setLinked] = useState(false);
+  const [offset, setOffset] = useState<Record<typeof OFFSET_FIELDS[number]['key'], Vector3Tuple>>({
+    position: [1.5, 0, 0],
+    rotation: [0, 0, 0],
+    scale: [1, 1, 1]
+  });
+
+  const setOffsetValue = (key: keyof typeof offset, index: number, value: number) => {
+    if (isNaN(value)) return;
+    const next = [...offset[key]] as Vector3Tuple;
+    next[index] = value;
+    setOffset({ ...offset, [key]: next });
+  };
+
+  const create = () => {
+    const [x, y, z] = offset.rotation.map(degrees => THREE.MathUtils.degToRad(degrees));
+    useSceneStore.getState().arrayDuplicateSelectedObjects(count, {
+      position: new THREE.Vector3(...offset.position),
+      rotation: new THREE.Euler(x, y, z),
+      scale: new THREE.Vector3(...offset.scale)
+    }, linked);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 border border-white/5 p-4 w-80"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold text-white/90">Array Duplicate</h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-white/70">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <label className="flex items-center justify-between gap-2 text-sm text-white/70">
+            Copies
+            <input
+              type="number"
+              value={count}
+              min={1}
+              max={MAX_COPIES}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                if (value >= 1) setCount(Math.min(value, MAX_COPIES));
+              }}
+              className="w-20 bg-[#2a2a2a] border border-white/10 rounded px-2 py-1 text-sm text-right text-white/90 focus:outline-none focus:border-blue-500/50"
+            />
+          </label>
+
+          {OFFSET_FIELDS.map(({ key, label, step }) => (
+            <div key={key}>
+              <h3 className="font-medium mb-2 text-white/70 text-sm">{label}</h3>
+              <div className="grid grid-cols-3 gap-2">
+                {AXES.map((axis, index) => (
+                  <div key={axis}>
+                    <label className="text-xs text-white/50 uppercase block mb-1">{axis}</label>
+                    <input
+                      type="number"
+                      value={offset[key][index]}
+                      step={step}
+                      onChange={(e) => setOffsetValue(key, index, parseFloat(e.target.value))}
+                      className="w-full bg-[#2a2a2a] border border-white/10 rounded px-2 py-1 text-sm text-white/90 focus:outline-none focus:border-blue-500/50"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <label className="flex items-center gap-2 text-xs text-white/50 cursor-pointer">
+            <input type="checkbox" checked={linked} onChange={(e) => setLinked(e.target.checked)} />
+            Link copies (share geometry with the original)
+          </label>
+
+          <button
+            onClick={create}
+            className="w-full p-2 rounded-lg bg-blue-500/20 text-blue-400 hover:bg-blue-500/30 transition-colors flex items-center justify-center gap-2"
+          >
+            <Copy className="w-4 h-4" />
+            <span className="text-sm font-medium">Create {count} {count === 1 ? 'Copy' : 'Copies'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArrayDuplicateDialog;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Bookmark, ChevronDown, ChevronRight, Edit2, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { useSceneStore } from '../store/sceneStore';
+import { type ShortcutId, formatKeyCombo } from '../store/keymap';
+
+const CameraBookmarksPanel: React.FC = () => {
+  const {
+    cameraBookmarks,
+    cameraRig,
+    addCameraBookmark,
+    renameCameraBookmark,
+    updateCameraBookmark,
+    removeCameraBookmark,
+    recallCameraBookmark,
+    keyBindings,
+    viewportLayout
+  } = useSceneStore();
+  // Bookmarks hold perspective pane views; the axis panes keep their direction
+  const quadLayout = viewportLayout === 'quad';
+  const [expanded, setExpanded] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const addBookmark = () => {
+    if (addCameraBookmark()) setExpanded(true);
+  };
+
+  const startEditing = (id: string, name: string) => {
+    setEditingId(id);
+    setEditingName(name);
+  };
+
+  const saveEdit = () => {
+    if (editingId && editingName.trim()) {
+      renameCameraBookmark(editingId, editingName.trim());
+    }
+    setEditingId(null);
+    setEditingName('');
+  };
+
+  return (
+    <div className="absolute left-[24rem] bottom-4 bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 p-2 w-56 border border-white/5">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex-1 p-1.5 hover:bg-white/5 rounded-lg transition-colors flex items-center gap-2 text-white/90"
+          title={expanded ? 'Hide Views' : 'Show Views'}
+        >
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <Bookmark className="w-4 h-4" />
+          <span className="text-sm font-medium">Views</span>
+        </button>
+        <button
+          onClick={addBookmark}
+          disabled={!cameraRig}
+          className={`p-1.5 rounded-lg transition-colors ${
+            cameraRig ? 'text-white/90 hover:bg-white/10' : 'text-white/30 cursor-not-allowed'
+          }`}
+          title={quadLayout ? "Bookmark the Perspective Pane's View" : 'Bookmark Current View'}
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-2 max-h-64 overflow-y-auto space-y-0.5 border-t border-white/10 pt-2">
+          {cameraBookmarks.length === 0 && (
+            <div className="px-2 py-1 text-sm text-white/50">No saved views</div>
+          )}
+          {quadLayout && (
+            <div className="px-2 py-1 text-xs text-white/50">Views are saved from and shown in the perspective pane</div>
+          )}
+          {cameraBookmarks.map((bookmark, i) => {
+            // Bookmarks past the ninth can still be recalled from the list
+            const [shortcut] = keyBindings[`bookmark${i + 1}` as ShortcutId] ?? [];
+            return (
+              <div key={bookmark.id} className="group flex items-center gap-1 rounded hover:bg-white/5">
+                {editingId === bookmark.id ? (
+                  <input
+                    type="text"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={saveEdit}
+                    onKeyDown={(e) => e.key === 'Enter' && saveEdit()}
+                    className="bg-[#2a2a2a] border border-white/10 rounded px-2 py-1 flex-1 min-w-0 text-sm text-white/90 focus:outline-none focus:border-blue-500/50"
+                    autoFocus
+                  />
+                ) : (
+                  <button
+                    onClick={() => recallCameraBookmark(bookmark.id)}
+                    onDoubleClick={() => startEditing(bookmark.id, bookmark.name)}
+                    className="flex-1 min-w-0 px-2 py-1 text-left text-sm text-white/90 flex items-center gap-2"
+                    title={shortcut ? `Go to View (${formatKeyCombo(shortcut)})` : 'Go to View'}
+                  >
+                    <span className="flex-1 truncate">{bookmark.name}</span>
+                    {shortcut && <span className="text-xs text-white/30">{formatKeyCombo(shortcut)}</span>}
+                  </button>
+                )}
+                <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => startEditing(bookmark.id, bookmark.name)}
+                    className="p-1 rounded text-white/50 hover:text-white/90 hover:bg-white/10"
+                    title="Rename"
+                  >
+                    <Edit2 className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => updateCameraBookmark(bookmark.id)}
+                    className="p-1 rounded text-white/50 hover:text-white/90 hover:bg-white/10"
+                    title="Replace with Current View"
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => removeCameraBookmark(bookmark.id)}
+                    className="p-1 rounded text-white/50 hover:text-red-400 hover:bg-white/10"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraBookmarksPanel;
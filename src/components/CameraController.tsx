@@ -0,0 +1,438 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import { type CameraPerspective, type CameraView, useSceneStore } from '../store/sceneStore';
+import { getFacesVertexIndices } from '../store/meshUtils';
+import { isNodeShown } from '../store/hierarchy';
+import {
+  CAMERA_VIEWS,
+  FRAME_PADDING,
+  MIN_FRAME_RADIUS,
+  ORTHOGRAPHIC_DISTANCE,
+  TRANSITION_SECONDS,
+  getActiveViewport,
+  getViewportRect,
+  getViewportView,
+  setViewportView
+} from '../store/viewports';
+import { registerShortcutHandlers } from '../store/keymap';
+import * as THREE from 'three';
+
+type OrbitControlsImpl = React.ElementRef<typeof OrbitControls>;
+
+const PERSPECTIVE_FOV = 75;
+
+// Dragging the view cube stops short of looking straight down or up
+const MIN_POLAR_ANGLE = 0.01;
+
+// Rotation of a camera looking from a direction towards the target
+const getViewQuaternion = (direction: THREE.Vector3, up: THREE.Vector3) => {
+  const rotation = new THREE.Matrix4().lookAt(direction, new THREE.Vector3(), up);
+  return new THREE.Quaternion().setFromRotationMatrix(rotation);
+};
+
+// Views straight down an axis are shown orthographic
+const isAxisAligned = (direction: THREE.Vector3) =>
+  direction.toArray().filter(component => Math.abs(component) > 1e-6).length === 1;
+
+// Height of the slice of the scene a perspective camera shows at a distance,
+// which an orthographic camera matches through its zoom
+const getVisibleHeight = (distance: number, fov: number) =>
+  2 * distance * Math.tan(THREE.MathUtils.degToRad(fov / 2));
+
+// Distance at which a perspective camera fits a sphere in view
+const getFitDistance = (radius: number, aspect: number, fov: number) => {
+  const vertical = THREE.MathUtils.degToRad(fov / 2);
+  const horizontal = Math.atan(Math.tan(vertical) * aspect);
+  return radius / Math.sin(Math.min(vertical, horizontal));
+};
+
+// World bounds of what "frame selection" shows: the selected vertices, edges
+// or faces while editing, otherwise the selected objects. Framing everything
+// (or a selection that is empty) shows all visible objects.
+const getFrameBounds = (scope: 'selection' | 'all') => {
+  const { objects, groups, selectedObjects, selectedObject, editMode, selectedElements } = useSceneStore.getState();
+  const bounds = new THREE.Box3();
+
+  if (scope === 'selection') {
+    if (editMode && selectedObject instanceof THREE.Mesh) {
+      const geometry = selectedObject.geometry;
+      const positions = geometry.attributes.position;
+      const indices = [
+        ...selectedElements.vertices,
+        ...selectedElements.edges,
+        ...getFacesVertexIndices(geometry, selectedElements.faces)
+      ];
+      indices.forEach(index => {
+        bounds.expandByPoint(new THREE.Vector3().fromBufferAttribute(positions, index).applyMatrix4(selectedObject.matrixWorld));
+      });
+    }
+    if (bounds.isEmpty()) {
+      selectedObjects.forEach(object => bounds.expandByObject(object));
+    }
+    if (!bounds.isEmpty()) return bounds;
+  }
+
+  objects
+    .filter(({ id }) => isNodeShown({ objects, groups }, id))
+    .forEach(({ object }) => bounds.expandByObject(object));
+  return bounds;
+};
+
+interface Transition {
+  camera: THREE.Camera;
+  fromQuaternion: THREE.Quaternion;
+  toQuaternion: THREE.Quaternion;
+  fromDistance: number;
+  toDistance: number;
+  fromTarget: THREE.Vector3;
+  toTarget: THREE.Vector3;
+  // Orthographic cameras frame by zoom rather than distance
+  fromZoom?: number;
+  toZoom?: number;
+  // Bookmarked perspective views may use another field of view
+  fromFov?: number;
+  toFov?: number;
+  progress: number;
+  onDone?: () => void;
+}
+
+// Places a camera on its orbit around the target: it looks down its local -Z
+const placeOnOrbit = (camera: THREE.Camera, target: THREE.Vector3, quaternion: THREE.Quaternion, distance: number) => {
+  camera.quaternion.copy(quaternion);
+  camera.position.copy(target).add(new THREE.Vector3(0, 0, distance).applyQuaternion(quaternion));
+  camera.updateMatrixWorld();
+};
+
+// Owns the viewport cameras: a perspective camera for the 'perspective'
+// view and an orthographic one for the axis views, with animated moves
+// between them. Views orbit the current target, which framing moves.
+// Presets, bookmarks and the view cube move it through the store's camera rig.
+// In the quad layout this is the perspective pane, whose orbit controls
+// listen on the pane's element. Bookmarks and presets always use this pane;
+// framing works on whichever pane is active.
+const CameraController = ({ domElement }: { domElement?: HTMLElement }) => {
+  const { viewportLayout, maximizedViewport } = useSceneStore();
+  const { size, get } = useThree();
+  const controlsRef = useRef<OrbitControlsImpl>(null);
+  const transition = useRef<Transition | null>(null);
+  const target = useRef(new THREE.Vector3());
+
+  const perspectiveCamera = useMemo(() => {
+    const perspective = new THREE.PerspectiveCamera(PERSPECTIVE_FOV, 1, 0.1, 1000);
+    perspective.position.set(5, 5, 5);
+    perspective.lookAt(0, 0, 0);
+    return perspective;
+  }, []);
+  const orthographicCamera = useMemo(
+    () => new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, ORTHOGRAPHIC_DISTANCE * 10),
+    []
+  );
+
+  // The camera being shown. The pane registers it, and it becomes the
+  // canvas's default camera while the pane is active.
+  const [camera, setCamera] = useState<THREE.PerspectiveCamera | THREE.OrthographicCamera>(perspectiveCamera);
+  const currentCamera = useRef(camera);
+  const showCamera = useCallback((next: THREE.PerspectiveCamera | THREE.OrthographicCamera) => {
+    currentCamera.current = next;
+    setCamera(next);
+  }, []);
+
+  // The whole canvas, or a quarter of it in the quad layout
+  const getViewSize = useCallback(() => getViewportRect('perspective', useSceneStore.getState(), get().size), [get]);
+
+  // Moves the target to the centre of the bounds and fits them in view,
+  // keeping the viewing direction
+  const frame = useCallback((bounds: THREE.Box3) => {
+    const current = currentCamera.current;
+    const { width, height } = getViewSize();
+    const sphere = bounds.getBoundingSphere(new THREE.Sphere());
+    const radius = Math.max(sphere.radius, MIN_FRAME_RADIUS) * FRAME_PADDING;
+    if (controlsRef.current) target.current.copy(controlsRef.current.target);
+
+    const isOrthographic = current instanceof THREE.OrthographicCamera;
+    const fromDistance = current.position.distanceTo(target.current);
+    transition.current = {
+      camera: current,
+      fromQuaternion: current.quaternion.clone(),
+      toQuaternion: current.quaternion.clone(),
+      fromDistance,
+      toDistance: isOrthographic ? fromDistance : getFitDistance(radius, width / height, current.fov),
+      fromTarget: target.current.clone(),
+      toTarget: sphere.center.clone(),
+      fromZoom: isOrthographic ? current.zoom : undefined,
+      toZoom: isOrthographic ? Math.min(width, height) / (2 * radius) : undefined,
+      progress: 0
+    };
+  }, [getViewSize]);
+
+  useEffect(() => {
+    setViewportView('perspective', { camera, controls: controlsRef.current, frame });
+    return () => setViewportView('perspective', null);
+  }, [camera, frame]);
+
+  // The canvas resizes only its default camera, and not to the pane, so
+  // keep both cameras in step here
+  useLayoutEffect(() => {
+    const { width, height } = getViewportRect('perspective', { viewportLayout, maximizedViewport }, size);
+    perspectiveCamera.aspect = width / height;
+    perspectiveCamera.updateProjectionMatrix();
+    orthographicCamera.left = width / -2;
+    orthographicCamera.right = width / 2;
+    orthographicCamera.top = height / 2;
+    orthographicCamera.bottom = height / -2;
+    orthographicCamera.updateProjectionMatrix();
+  }, [size, viewportLayout, maximizedViewport, perspectiveCamera, orthographicCamera]);
+
+  // Switching cameras recreates the orbit controls; keep orbiting the same point
+  useEffect(() => {
+    controlsRef.current?.target.copy(target.current);
+    controlsRef.current?.update();
+  }, [camera]);
+
+  useEffect(() => {
+    // Puts the perspective camera where it shows what the orthographic one
+    // does, and returns its distance from the target
+    const takeOverFromOrthographic = (up: THREE.Vector3) => {
+      const { height } = getViewSize();
+      const distance = height / orthographicCamera.zoom / getVisibleHeight(1, perspectiveCamera.fov);
+      perspectiveCamera.up.copy(up);
+      placeOnOrbit(perspectiveCamera, target.current, orthographicCamera.quaternion, distance);
+      showCamera(perspectiveCamera);
+      return distance;
+    };
+
+    // Swings round the target to look from a direction, keeping the
+    // framing. Views down an axis end on the orthographic camera.
+    const orbitTo = (direction: THREE.Vector3, up: THREE.Vector3) => {
+      const current = currentCamera.current;
+      const { height } = getViewSize();
+      if (controlsRef.current) target.current.copy(controlsRef.current.target);
+
+      const toQuaternion = getViewQuaternion(direction, up);
+      const fromDistance = current.position.distanceTo(target.current);
+      const startTransition = (animated: THREE.Camera, from: number, to: number, onDone?: () => void) => {
+        transition.current = {
+          camera: animated,
+          fromQuaternion: animated.quaternion.clone(),
+          toQuaternion,
+          fromDistance: from,
+          toDistance: to,
+          fromTarget: target.current.clone(),
+          toTarget: target.current.clone(),
+          progress: 0,
+          onDone
+        };
+      };
+
+      if (!isAxisAligned(direction)) {
+        if (current === perspectiveCamera) {
+          perspectiveCamera.up.copy(up);
+          startTransition(perspectiveCamera, fromDistance, fromDistance);
+          return;
+        }
+        // Take over from the orthographic view, then swing round
+        const distance = takeOverFromOrthographic(up);
+        startTransition(perspectiveCamera, distance, distance);
+        return;
+      }
+
+      const showOrthographic = () => {
+        orthographicCamera.up.copy(up);
+        placeOnOrbit(orthographicCamera, target.current, toQuaternion, ORTHOGRAPHIC_DISTANCE);
+      };
+
+      if (current === orthographicCamera) {
+        startTransition(orthographicCamera, ORTHOGRAPHIC_DISTANCE, ORTHOGRAPHIC_DISTANCE, showOrthographic);
+        return;
+      }
+
+      // Swing the perspective camera round to the view, then swap in the
+      // orthographic camera zoomed to show the same area
+      startTransition(perspectiveCamera, fromDistance, fromDistance, () => {
+        orthographicCamera.zoom = height / getVisibleHeight(fromDistance, perspectiveCamera.fov);
+        orthographicCamera.updateProjectionMatrix();
+        showOrthographic();
+        showCamera(orthographicCamera);
+      });
+    };
+
+    const showPerspective = (perspective: CameraPerspective) => {
+      const { direction, up } = CAMERA_VIEWS[perspective];
+      orbitTo(direction, up);
+    };
+
+    // Turns the camera round the target right away, the way orbiting does
+    const orbitBy = (yaw: number, pitch: number) => {
+      transition.current = null;
+      if (controlsRef.current) target.current.copy(controlsRef.current.target);
+      if (currentCamera.current === orthographicCamera) {
+        takeOverFromOrthographic(THREE.Object3D.DEFAULT_UP);
+      }
+
+      const current = currentCamera.current;
+      const spherical = new THREE.Spherical().setFromVector3(current.position.clone().sub(target.current));
+      spherical.theta -= yaw;
+      spherical.phi = THREE.MathUtils.clamp(spherical.phi - pitch, MIN_POLAR_ANGLE, Math.PI - MIN_POLAR_ANGLE);
+      current.up.copy(THREE.Object3D.DEFAULT_UP);
+      current.position.setFromSpherical(spherical).add(target.current);
+      current.lookAt(target.current);
+      current.updateMatrixWorld();
+    };
+
+    const captureView = (): CameraView => {
+      const current = currentCamera.current;
+      const isOrthographic = current instanceof THREE.OrthographicCamera;
+      return {
+        projection: isOrthographic ? 'orthographic' : 'perspective',
+        position: current.position.clone(),
+        target: (controlsRef.current?.target ?? target.current).clone(),
+        up: current.up.clone(),
+        fov: perspectiveCamera.fov,
+        zoom: isOrthographic ? current.zoom : 1
+      };
+    };
+
+    // Moves to a captured view, switching projection the way the presets do:
+    // swing round in perspective before swapping in the orthographic camera,
+    // or take over from it with the same framing before swinging round
+    const showView = (view: CameraView) => {
+      const current = currentCamera.current;
+      const { height } = getViewSize();
+      if (controlsRef.current) target.current.copy(controlsRef.current.target);
+
+      const rotation = new THREE.Matrix4().lookAt(view.position, view.target, view.up);
+      const toQuaternion = new THREE.Quaternion().setFromRotationMatrix(rotation);
+      const toDistance = view.position.distanceTo(view.target);
+      const startTransition = (animated: THREE.Camera, from: number, to: number, changes: Partial<Transition> = {}) => {
+        transition.current = {
+          camera: animated,
+          fromQuaternion: animated.quaternion.clone(),
+          toQuaternion,
+          fromDistance: from,
+          toDistance: to,
+          fromTarget: target.current.clone(),
+          toTarget: view.target.clone(),
+          progress: 0,
+          ...changes
+        };
+      };
+      const changeFov = { fromFov: perspectiveCamera.fov, toFov: view.fov };
+
+      if (view.projection === 'perspective') {
+        perspectiveCamera.up.copy(view.up);
+        if (current === perspectiveCamera) {
+          startTransition(perspectiveCamera, current.position.distanceTo(target.current), toDistance, changeFov);
+          return;
+        }
+        const distance = takeOverFromOrthographic(view.up);
+        startTransition(perspectiveCamera, distance, toDistance, changeFov);
+        return;
+      }
+
+      orthographicCamera.up.copy(view.up);
+      if (current === orthographicCamera) {
+        startTransition(orthographicCamera, current.position.distanceTo(target.current), toDistance, {
+          fromZoom: orthographicCamera.zoom,
+          toZoom: view.zoom
+        });
+        return;
+      }
+
+      // End the swing where the perspective camera shows what the bookmark does
+      const distance = height / view.zoom / getVisibleHeight(1, perspectiveCamera.fov);
+      startTransition(perspectiveCamera, current.position.distanceTo(target.current), distance, {
+        onDone: () => {
+          orthographicCamera.zoom = view.zoom;
+          orthographicCamera.updateProjectionMatrix();
+          placeOnOrbit(orthographicCamera, view.target, toQuaternion, toDistance);
+          showCamera(orthographicCamera);
+        }
+      });
+    };
+
+    const { setCameraRig } = useSceneStore.getState();
+    setCameraRig({ captureView, showView, showPerspective, orbitTo, orbitBy });
+    return () => setCameraRig(null);
+  }, [getViewSize, showCamera, perspectiveCamera, orthographicCamera]);
+
+  useFrame((_, delta) => {
+    const active = transition.current;
+    if (!active) return;
+
+    active.progress = Math.min(active.progress + delta / TRANSITION_SECONDS, 1);
+    const t = THREE.MathUtils.smoothstep(active.progress, 0, 1);
+    const quaternion = active.fromQuaternion.clone().slerp(active.toQuaternion, t);
+    const distance = THREE.MathUtils.lerp(active.fromDistance, active.toDistance, t);
+    target.current.lerpVectors(active.fromTarget, active.toTarget, t);
+    if (active.camera instanceof THREE.OrthographicCamera && active.fromZoom && active.toZoom) {
+      active.camera.zoom = THREE.MathUtils.lerp(active.fromZoom, active.toZoom, t);
+      active.camera.updateProjectionMatrix();
+    }
+    if (active.camera instanceof THREE.PerspectiveCamera && active.fromFov && active.toFov) {
+      active.camera.fov = THREE.MathUtils.lerp(active.fromFov, active.toFov, t);
+      active.camera.updateProjectionMatrix();
+    }
+    placeOnOrbit(active.camera, target.current, quaternion, distance);
+
+    if (active.progress === 1) {
+      transition.current = null;
+      active.onDone?.();
+      controlsRef.current?.target.copy(target.current);
+      controlsRef.current?.update();
+    }
+  });
+
+  // Handle keyboard shortcuts
+  useEffect(() => {
+    // Frames in the pane being worked in, which may be an axis pane
+    const frameActiveView = (scope: 'selection' | 'all') => {
+      const bounds = getFrameBounds(scope);
+      if (bounds.isEmpty()) return;
+      getViewportView(getActiveViewport(useSceneStore.getState()))?.frame(bounds);
+    };
+
+    const { setCameraPerspective } = useSceneStore.getState();
+    // Bookmarked views are recalled by their place in the list
+    const recallBookmark = (slot: number) => () => {
+      const { cameraBookmarks, recallCameraBookmark } = useSceneStore.getState();
+      const bookmark = cameraBookmarks[slot - 1];
+      if (!bookmark) return false;
+      recallCameraBookmark(bookmark.id);
+    };
+
+    return registerShortcutHandlers({
+      frameSelection: () => frameActiveView('selection'),
+      frameAll: () => frameActiveView('all'),
+      viewPerspective: () => setCameraPerspective('perspective'),
+      viewFront: () => setCameraPerspective('front'),
+      viewBack: () => setCameraPerspective('back'),
+      viewRight: () => setCameraPerspective('right'),
+      viewLeft: () => setCameraPerspective('left'),
+      viewTop: () => setCameraPerspective('top'),
+      viewBottom: () => setCameraPerspective('bottom'),
+      bookmark1: recallBookmark(1),
+      bookmark2: recallBookmark(2),
+      bookmark3: recallBookmark(3),
+      bookmark4: recallBookmark(4),
+      bookmark5: recallBookmark(5),
+      bookmark6: recallBookmark(6),
+      bookmark7: recallBookmark(7),
+      bookmark8: recallBookmark(8),
+      bookmark9: recallBookmark(9)
+    });
+  }, []);
+
+  return (
+    <OrbitControls
+      ref={controlsRef}
+      camera={camera}
+      domElement={domElement}
+      enablePan={true}
+      enableZoom={true}
+      enableRotate={true}
+    />
+  );
+};
+
+export default CameraController;
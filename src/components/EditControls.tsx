@@ -1,10 +1,134 @@
 import React from 'react';
 import { useSceneStore } from '../store/sceneStore';
+import { MAX_NURBS_DEGREE, getSurfaceLayout } from '../store/nurbs';
 
 const EditControls: React.FC = () => {
-  const { editMode, selectedObject } = useSceneStore();
+  const {
+    editMode,
+    selectedObject,
+    extrudePreview,
+    applyExtrude,
+    cancelExtrude,
+    bevelPreview,
+    applyBevel,
+    cancelBevel,
+    nurbs,
+    updateControlPoint,
+    removeControlPoint,
+    setNURBSDegree,
+    setNURBSColumns,
+    clearControlPoints,
+    createNURBSCurve,
+    createNURBSSurface
+  } = useSceneStore();
 
-  if (!selectedObject || !editMode) return null;
+  // NURBS authoring doesn't work on an existing object
+  const isAuthoring = editMode === 'curve' || editMode === 'nurbs';
+  if (!editMode || (!selectedObject && !isAuthoring)) return null;
+
+  const renderNURBSControls = (isSurface: boolean) => {
+    const { controlPoints, selectedPoint, degree, columns } = nurbs;
+    const point = selectedPoint !== null ? controlPoints[selectedPoint] : undefined;
+    const { rows, used } = getSurfaceLayout(controlPoints.length, columns);
+    const canCreate = isSurface ? columns >= 2 && rows >= 2 : controlPoints.length >= 2;
+    const maxDegree = Math.min(
+      MAX_NURBS_DEGREE,
+      Math.max(1, (isSurface ? Math.min(rows, columns) : controlPoints.length) - 1)
+    );
+
+    return (
+      <div className="space-y-2 w-56">
+        <h3 className="font-medium">{isSurface ? 'NURBS Surface' : 'NURBS Curve'}</h3>
+        <p className="text-xs text-gray-500">
+          Click in the viewport to place control points{isSurface ? ', row by row' : ''}. Drag points to move them.
+        </p>
+        <div className="text-sm">
+          {controlPoints.length} control points
+          {isSurface && ` (${rows} × ${columns} net${controlPoints.length > used ? `, ${controlPoints.length - used} unused` : ''})`}
+        </div>
+        {isSurface && (
+          <div>
+            <label className="block text-sm">Points per row</label>
+            <input
+              type="number"
+              min="2"
+              max="16"
+              value={columns}
+              className="w-full border rounded px-2 py-1 text-sm"
+              onChange={(e) => setNURBSColumns(Math.max(2, parseInt(e.target.value) || 2))}
+            />
+          </div>
+        )}
+        <div>
+          <label className="block text-sm">
+            Degree: {Math.min(degree, maxDegree)}{degree > maxDegree ? ` (of ${degree}, needs more points)` : ''}
+          </label>
+          <input
+            type="range"
+            min="1"
+            max={MAX_NURBS_DEGREE}
+            step="1"
+            value={degree}
+            className="w-full"
+            onChange={(e) => setNURBSDegree(parseInt(e.target.value))}
+          />
+        </div>
+        {point && selectedPoint !== null && (
+          <div className="space-y-1 border-t pt-2">
+            <div className="text-sm font-medium">Point {selectedPoint + 1}</div>
+            <div className="flex gap-1">
+              {(['x', 'y', 'z'] as const).map(axis => (
+                <input
+                  key={axis}
+                  type="number"
+                  step="0.1"
+                  title={axis.toUpperCase()}
+                  value={parseFloat(point.position[axis].toFixed(3))}
+                  className="w-full border rounded px-1 py-1 text-sm"
+                  onChange={(e) => {
+                    const position = point.position.clone();
+                    position[axis] = parseFloat(e.target.value) || 0;
+                    updateControlPoint(selectedPoint, { position });
+                  }}
+                />
+              ))}
+            </div>
+            <label className="block text-sm">Weight: {point.weight.toFixed(2)}</label>
+            <input
+              type="range"
+              min="0.1"
+              max="10"
+              step="0.1"
+              value={point.weight}
+              className="w-full"
+              onChange={(e) => updateControlPoint(selectedPoint, { weight: parseFloat(e.target.value) })}
+            />
+            <button
+              onClick={() => removeControlPoint(selectedPoint)}
+              className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-sm"
+            >
+              Remove Point
+            </button>
+          </div>
+        )}
+        <div className="border-t pt-2">
+          <button
+            onClick={isSurface ? createNURBSSurface : createNURBSCurve}
+            disabled={!canCreate}
+            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            {isSurface ? 'Create Surface' : 'Create Curve'}
+          </button>
+          <button
+            onClick={clearControlPoints}
+            className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 ml-2"
+          >
+            Clear Points
+          </button>
+        </div>
+      </div>
+    );
+  };
 
   const renderControls = () => {
     switch (editMode) {
@@ -13,71 +137,85 @@ const EditControls: React.FC = () => {
           <div className="space-y-2">
             <h3 className="font-medium">Extrude Settings</h3>
             <div>
-              <label className="block text-sm">Distance</label>
+              <label className="block text-sm">
+                Distance: {(extrudePreview?.distance ?? 0).toFixed(2)}
+              </label>
               <input
                 type="range"
                 min="0"
                 max="2"
-                step="0.1"
+                step="0.05"
+                value={extrudePreview?.distance ?? 0}
                 className="w-full"
                 onChange={(e) => useSceneStore.getState().extrudeFace(parseFloat(e.target.value))}
               />
             </div>
+            <button
+              onClick={applyExtrude}
+              disabled={!extrudePreview}
+              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            >
+              Apply
+            </button>
+            <button
+              onClick={cancelExtrude}
+              disabled={!extrudePreview}
+              className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 ml-2 disabled:opacity-50"
+            >
+              Cancel
+            </button>
           </div>
         );
-      case 'bevel':
+      case 'bevel': {
+        const segments = bevelPreview?.segments ?? 1;
+        const width = bevelPreview?.width ?? 0.1;
         return (
           <div className="space-y-2">
             <h3 className="font-medium">Bevel Settings</h3>
             <div>
-              <label className="block text-sm">Segments</label>
+              <label className="block text-sm">Width: {width.toFixed(2)}</label>
+              <input
+                type="range"
+                min="0.01"
+                max="0.5"
+                step="0.01"
+                value={width}
+                className="w-full"
+                onChange={(e) => useSceneStore.getState().bevelEdge(segments, parseFloat(e.target.value))}
+              />
+            </div>
+            <div>
+              <label className="block text-sm">Segments: {segments}</label>
               <input
                 type="range"
                 min="1"
                 max="5"
                 step="1"
+                value={segments}
                 className="w-full"
-                onChange={(e) => useSceneStore.getState().bevelEdge(parseInt(e.target.value), 0.1)}
+                onChange={(e) => useSceneStore.getState().bevelEdge(parseInt(e.target.value), width)}
               />
             </div>
-          </div>
-        );
-      case 'nurbs':
-        return (
-          <div className="space-y-2">
-            <h3 className="font-medium">NURBS Surface</h3>
             <button
-              onClick={() => useSceneStore.getState().createNURBSSurface()}
-              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+              onClick={applyBevel}
+              disabled={!bevelPreview}
+              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
             >
-              Create Surface
+              Apply
             </button>
             <button
-              onClick={() => useSceneStore.getState().clearControlPoints()}
-              className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 ml-2"
+              onClick={cancelBevel}
+              disabled={!bevelPreview}
+              className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 ml-2 disabled:opacity-50"
             >
-              Clear Points
+              Cancel
             </button>
           </div>
         );
+      }
       case 'curve':
-        return (
-          <div className="space-y-2">
-            <h3 className="font-medium">NURBS Curve</h3>
-            <button
-              onClick={() => useSceneStore.getState().createNURBSCurve()}
-              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
-            >
-              Create Curve
-            </button>
-            <button
-              onClick={() => useSceneStore.getState().clearControlPoints()}
-              className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 ml-2"
-            >
-              Clear Points
-            </button>
-          </div>
-        );
+      case 'nurbs':
+        return renderNURBSControls(editMode === 'nurbs');
       default:
         return null;
     }
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { Undo2, Redo2, History, ChevronDown, ChevronRight } from 'lucide-react';
+import { useSceneStore } from '../store/sceneStore';
+import { registerShortcutHandlers, withShortcut } from '../store/keymap';
+
+const HistoryPanel: React.FC = () => {
+  const { history, undo, redo, keyBindings } = useSceneStore();
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => registerShortcutHandlers({
+    undo: () => useSceneStore.getState().undo(),
+    redo: () => useSceneStore.getState().redo()
+  }), []);
+
+  const jumpTo = (steps: number) => {
+    const action = steps < 0 ? undo : redo;
+    for (let i = 0; i < Math.abs(steps); i++) {
+      action();
+    }
+  };
+
+  const canUndo = history.past.length > 0;
+  const canRedo = history.future.length > 0;
+
+  return (
+    <div className="absolute left-36 bottom-4 bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 p-2 w-56 border border-white/5">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex-1 p-1.5 hover:bg-white/5 rounded-lg transition-colors flex items-center gap-2 text-white/90"
+          title={expanded ? 'Hide History' : 'Show History'}
+        >
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <History className="w-4 h-4" />
+          <span className="text-sm font-medium">History</span>
+        </button>
+        <button
+          onClick={undo}
+          disabled={!canUndo}
+          className={`p-1.5 rounded-lg transition-colors ${
+            canUndo ? 'text-white/90 hover:bg-white/10' : 'text-white/30 cursor-not-allowed'
+          }`}
+          title={withShortcut('Undo', keyBindings.undo)}
+        >
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={redo}
+          disabled={!canRedo}
+          className={`p-1.5 rounded-lg transition-colors ${
+            canRedo ? 'text-white/90 hover:bg-white/10' : 'text-white/30 cursor-not-allowed'
+          }`}
+          title={withShortcut('Redo', keyBindings.redo)}
+        >
+          <Redo2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-2 max-h-64 overflow-y-auto space-y-0.5 border-t border-white/10 pt-2">
+          <button
+            onClick={() => jumpTo(-history.past.length)}
+            className={`w-full px-2 py-1 rounded text-left text-sm transition-colors hover:bg-white/5 ${
+              canUndo ? 'text-white/50' : 'text-blue-400'
+            }`}
+          >
+            Initial State
+          </button>
+          {history.past.map((entry, i) => (
+            <button
+              key={entry.id}
+              onClick={() => jumpTo(i + 1 - history.past.length)}
+              className={`w-full px-2 py-1 rounded text-left text-sm transition-colors hover:bg-white/5 ${
+                i === history.past.length - 1 ? 'bg-blue-500/20 text-blue-400' : 'text-white/90'
+              }`}
+            >
+              {entry.label}
+            </button>
+          ))}
+          {history.future.map((entry, i) => (
+            <button
+              key={entry.id}
+              onClick={() => jumpTo(i + 1)}
+              className="w-full px-2 py-1 rounded text-left text-sm transition-colors text-white/30 hover:bg-white/5"
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
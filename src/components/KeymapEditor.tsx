@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { Keyboard, Plus, RotateCcw, X } from 'lucide-react';
+import { useSceneStore } from '../store/sceneStore';
+import {
+  type KeyCombo,
+  type ShortcutCategory,
+  type ShortcutId,
+  SHORTCUT_ACTIONS,
+  findKeyBinding,
+  findKeyConflicts,
+  formatKeyCombo,
+  getDefaultKeyBindings,
+  getKeyCombo,
+  handleShortcutKeyDown
+} from '../store/keymap';
+
+const CATEGORIES: ShortcutCategory[] = ['Edit', 'Tools', 'View'];
+
+// A binding being recorded: the key it replaces, if any, and once a key is
+// pressed that is taken by another action, the key and that action
+interface Recording {
+  id: ShortcutId;
+  replacing: KeyCombo | null;
+  conflict: { combo: KeyCombo; owner: ShortcutId } | null;
+}
+
+const getLabel = (id: ShortcutId) => SHORTCUT_ACTIONS.find(action => action.id === id)?.label ?? id;
+
+// Runs shortcuts for the whole app, and lets them be rebound in a dialog
+// opened from the toolbar
+const KeymapEditor: React.FC = () => {
+  const { keyBindings, keymapEditorOpen, setKeyBinding, resetKeyBindings, setKeymapEditorOpen } = useSceneStore();
+  const [recording, setRecording] = useState<Recording | null>(null);
+
+  // Shortcuts are off while the dialog is open, so keys can be tried out
+  useEffect(() => {
+    if (keymapEditorOpen) return;
+    const handleKeyDown = (event: KeyboardEvent) => handleShortcutKeyDown(event, useSceneStore.getState().keyBindings);
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keymapEditorOpen]);
+
+  const assign = (id: ShortcutId, combo: KeyCombo, replacing: KeyCombo | null) => {
+    const { keyBindings: current } = useSceneStore.getState();
+    const keys = current[id].filter(key => key !== replacing && key !== combo);
+    const index = replacing ? current[id].indexOf(replacing) : keys.length;
+    setKeyBinding(id, [...keys.slice(0, index), combo, ...keys.slice(index)]);
+    setRecording(null);
+  };
+
+  // Takes the key from the action that had it
+  const reassign = ({ id, replacing, conflict }: Recording) => {
+    if (!conflict) return;
+    const { keyBindings: current } = useSceneStore.getState();
+    setKeyBinding(conflict.owner, current[conflict.owner].filter(key => key !== conflict.combo));
+    assign(id, conflict.combo, replacing);
+  };
+
+  // The next key pressed becomes the binding; Escape gives up
+  useEffect(() => {
+    if (!recording || recording.conflict) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.code === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      const combo = getKeyCombo(event);
+      if (!combo) return;
+
+      const owner = findKeyBinding(useSceneStore.getState().keyBindings, combo, recording.id);
+      if (owner) {
+        setRecording({ ...recording, conflict: { combo, owner: owner.id } });
+      } else {
+        assign(recording.id, combo, recording.replacing);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  });
+
+  if (!keymapEditorOpen) return null;
+
+  const defaults = getDefaultKeyBindings();
+  const conflicts = findKeyConflicts(keyBindings);
+
+  const close = () => {
+    setRecording(null);
+    setKeymapEditorOpen(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={close}>
+      <div
+        className="bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 border border-white/5 w-[32rem] max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 p-3 border-b border-white/10 text-white/90">
+          <Keyboard className="w-4 h-4" />
+          <span className="flex-1 text-sm font-medium">Keyboard Shortcuts</span>
+          <button
+            onClick={resetKeyBindings}
+            className="px-2 py-1 rounded-lg text-xs text-white/50 hover:text-white/90 hover:bg-white/10"
+            title="Restore Every Default Shortcut"
+          >
+            Reset All
+          </button>
+          <button onClick={close} className="p-1 rounded-lg text-white/50 hover:text-white/90 hover:bg-white/10" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {recording?.conflict && (
+          <div className="mx-3 mt-3 p-2 rounded-lg bg-amber-500/10 border border-amber-500/20 text-xs text-amber-200 flex items-center gap-2">
+            <span className="flex-1">
+              {formatKeyCombo(recording.conflict.combo)} is used by {getLabel(recording.conflict.owner)}
+            </span>
+            <button onClick={() => reassign(recording)} className="px-2 py-0.5 rounded bg-amber-500/20 hover:bg-amber-500/30">
+              Reassign
+            </button>
+            <button onClick={() => setRecording(null)} className="px-2 py-0.5 rounded hover:bg-white/10">
+              Cancel
+            </button>
+          </div>
+        )}
+
+        <div className="overflow-y-auto p-3 space-y-3">
+          {CATEGORIES.map(category => (
+            <div key={category}>
+              <h3 className="px-2 py-1 text-xs font-medium text-white/50 uppercase tracking-wider">{category}</h3>
+              {SHORTCUT_ACTIONS.filter(action => action.category === category).map(({ id, label }) => {
+                const keys = keyBindings[id];
+                const isDefault = keys.join() === defaults[id].join();
+                const isRecording = recording?.id === id;
+
+                return (
+                  <div key={id} className="group flex items-center gap-2 px-2 py-1 rounded hover:bg-white/5">
+                    <span className="flex-1 text-sm text-white/90">{label}</span>
+                    {keys.map(combo => {
+                      const sharedWith = conflicts.get(combo)?.filter(other => other !== id);
+                      const replacing = isRecording && recording.replacing === combo;
+                      return (
+                        <span
+                          key={combo}
+                          className={`flex items-center rounded border text-xs ${
+                            replacing
+                              ? 'border-blue-500/50 text-blue-400'
+                              : sharedWith
+                                ? 'border-red-500/40 text-red-400'
+                                : 'border-white/10 text-white/70'
+                          }`}
+                          title={sharedWith ? `Also bound to ${sharedWith.map(getLabel).join(', ')}` : 'Click to Change'}
+                        >
+                          <button onClick={() => setRecording({ id, replacing: combo, conflict: null })} className="px-1.5 py-0.5">
+                            {replacing ? 'Press a key…' : formatKeyCombo(combo)}
+                          </button>
+                          <button
+                            onClick={() => setKeyBinding(id, keys.filter(key => key !== combo))}
+                            className="pr-1 text-white/30 hover:text-red-400"
+                            title="Remove"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      );
+                    })}
+                    {isRecording && !recording.replacing ? (
+                      <span className="px-1.5 py-0.5 rounded border border-blue-500/50 text-xs text-blue-400">Press a key…</span>
+                    ) : (
+                      <button
+                        onClick={() => setRecording({ id, replacing: null, conflict: null })}
+                        className="p-0.5 rounded text-white/30 hover:text-white/90 hover:bg-white/10"
+                        title="Add Shortcut"
+                      >
+                        <Plus className="w-3 h-3" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setKeyBinding(id, defaults[id])}
+                      disabled={isDefault}
+                      className={`p-0.5 rounded ${isDefault ? 'invisible' : 'text-white/30 hover:text-white/90 hover:bg-white/10'}`}
+                      title="Restore Default"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeymapEditor;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { 
   Eye, 
   EyeOff, 
@@ -12,9 +12,21 @@ import {
   Users,
   FolderPlus,
   Lock,
-  Unlock
+  Unlock,
+  Combine,
+  Copy,
+  Link,
+  Rows3,
+  CornerLeftUp,
+  Unlink,
+  Lightbulb
 } from 'lucide-react';
-import { useSceneStore } from '../store/sceneStore';
+import * as THREE from 'three';
+import { type Group, type SceneObject, useSceneStore } from '../store/sceneStore';
+import type { BooleanOperation } from '../store/csg';
+import { formatKeyCombo, registerShortcutHandlers } from '../store/keymap';
+import { findNodeByObject, getChildNodes } from '../store/hierarchy';
+import ArrayDuplicateDialog from './ArrayDuplicateDialog';
 
 const LayersPanel: React.FC = () => {
   const { 
@@ -32,22 +44,46 @@ const LayersPanel: React.FC = () => {
     updateGroupName,
     moveObjectsToGroup,
     removeObjectFromGroup,
-    isObjectLocked
+    setParent,
+    booleanObjects,
+    isObjectLocked,
+    selectedObjects: selection,
+    selectedObject,
+    setSelectedObject,
+    toggleObjectSelection,
+    setSelection,
+    duplicateSelectedObjects,
+    keyBindings
   } = useSceneStore();
   
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
   const [editingType, setEditingType] = useState<'object' | 'group'>('object');
-  const [selectedObjects, setSelectedObjects] = useState<string[]>([]);
   const [showGroupOptions, setShowGroupOptions] = useState(false);
+  const [showBooleanOptions, setShowBooleanOptions] = useState(false);
+  const [showDuplicateOptions, setShowDuplicateOptions] = useState(false);
+  const [showArrayDialog, setShowArrayDialog] = useState(false);
+  const [booleanOperands, setBooleanOperands] = useState<'keep' | 'hide' | 'delete'>('hide');
+  // Rows being dragged, and the row (or 'root' for the top level) they'd drop on
+  const [draggedIds, setDraggedIds] = useState<string[]>([]);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  useEffect(() => registerShortcutHandlers({
+    delete: () => useSceneStore.getState().removeSelectedObjects(),
+    hide: () => useSceneStore.getState().hideSelectedObjects(),
+    duplicate: () => useSceneStore.getState().duplicateSelectedObjects(false),
+    linkedDuplicate: () => useSceneStore.getState().duplicateSelectedObjects(true)
+  }), []);
+
+  // The list shares the viewport selection, in the order objects were picked.
+  // Groups can be selected too, to move them and what they hold.
+  const selectedIds = selection.flatMap(object => findNodeByObject({ objects, groups }, object)?.id ?? []);
+  const selectedObjects = selectedIds.filter(id => objects.some(obj => obj.id === id));
+  const activeNode = selectedObject ? findNodeByObject({ objects, groups }, selectedObject) : undefined;
 
   const startEditing = (id: string, name: string, type: 'object' | 'group') => {
-    // Check if item is locked before allowing edit
-    if (type === 'object' && isObjectLocked(id)) return;
-    if (type === 'group') {
-      const group = groups.find(g => g.id === id);
-      if (group?.locked) return;
-    }
+    // Check if item (or anything above it) is locked before allowing edit
+    if (isObjectLocked(id)) return;
 
     setEditingId(id);
     setEditingName(name);
@@ -65,17 +101,13 @@ const LayersPanel: React.FC = () => {
     setEditingId(null);
   };
 
-  const handleObjectSelect = (objectId: string, event: React.MouseEvent) => {
+  const handleNodeSelect = (object: THREE.Object3D, event: React.MouseEvent) => {
     if (event.ctrlKey || event.metaKey) {
       // Multi-select with Ctrl/Cmd
-      setSelectedObjects(prev => 
-        prev.includes(objectId) 
-          ? prev.filter(id => id !== objectId)
-          : [...prev, objectId]
-      );
+      toggleObjectSelection(object);
     } else {
       // Single select
-      setSelectedObjects([objectId]);
+      setSelectedObject(object);
     }
   };
 
@@ -86,21 +118,363 @@ const LayersPanel: React.FC = () => {
       if (hasLockedObjects) return;
 
       createGroup(`Group ${groups.length + 1}`, selectedObjects);
-      setSelectedObjects([]);
+      setSelection([], false);
       setShowGroupOptions(false);
     }
   };
 
   const moveSelectedToGroup = (groupId: string | null) => {
-    if (selectedObjects.length > 0) {
-      moveObjectsToGroup(selectedObjects, groupId);
-      setSelectedObjects([]);
+    if (selectedIds.length > 0) {
+      moveObjectsToGroup(selectedIds, groupId);
+      setSelection([], false);
       setShowGroupOptions(false);
     }
   };
 
-  // Get ungrouped objects
-  const ungroupedObjects = objects.filter(obj => !obj.groupId);
+  // Everything else selected goes under the object or group picked last
+  const parentSelectedToActive = () => {
+    if (!activeNode) return;
+    setParent(selectedIds.filter(id => id !== activeNode.id), activeNode.id);
+    setShowGroupOptions(false);
+  };
+
+  // Dragging a selected row drags the whole selection
+  const handleDragStart = (id: string, event: React.DragEvent) => {
+    event.stopPropagation();
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', id);
+    setDraggedIds(selectedIds.includes(id) ? selectedIds : [id]);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedIds([]);
+    setDropTargetId(null);
+  };
+
+  // Props making a row (or the list itself, for 'root') a drop target
+  const dropTarget = (targetId: string) => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (draggedIds.length === 0 || draggedIds.includes(targetId)) return;
+      event.preventDefault();
+      event.stopPropagation();
+      setDropTargetId(targetId);
+    },
+    onDragLeave: (event: React.DragEvent) => {
+      event.stopPropagation();
+      if (dropTargetId === targetId) setDropTargetId(null);
+    },
+    onDrop: (event: React.DragEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      setParent(draggedIds, targetId === 'root' ? null : targetId);
+      handleDragEnd();
+    }
+  });
+
+  // Booleans need two or more unlocked meshes; the order of selection
+  // matters for subtract (first minus the rest)
+  const canCombineSelected = selectedObjects.length >= 2 && selectedObjects.every(id => {
+    const obj = objects.find(o => o.id === id);
+    return obj?.object instanceof THREE.Mesh && !isObjectLocked(id);
+  });
+
+  const combineSelected = (operation: BooleanOperation) => {
+    if (!canCombineSelected) return;
+
+    const resultId = booleanObjects(operation, selectedObjects, booleanOperands);
+    if (!resultId) {
+      window.alert('The boolean operation produced an empty result.');
+      return;
+    }
+    setShowBooleanOptions(false);
+  };
+
+  const rowClassName = (id: string, locked: boolean) =>
+    `flex items-center justify-between p-2 hover:bg-white/5 rounded-lg transition-colors cursor-pointer ${
+      selectedIds.includes(id) ? 'bg-blue-500/20 border border-blue-500/30' : ''
+    } ${dropTargetId === id ? 'ring-1 ring-blue-400/60' : ''} ${locked ? 'text-white/50' : 'text-white/90'}`;
+
+  const renderGroup = (group: Group) => {
+    const isLocked = isObjectLocked(group.id);
+    const parentLocked = group.parentId ? isObjectLocked(group.parentId) : false;
+    return (
+      <div key={group.id} className="space-y-1">
+        <div
+          className={rowClassName(group.id, isLocked)}
+          onClick={(e) => handleNodeSelect(group.object, e)}
+          draggable={!isLocked}
+          onDragStart={(e) => handleDragStart(group.id, e)}
+          onDragEnd={handleDragEnd}
+          {...dropTarget(group.id)}
+        >
+          <div className="flex items-center gap-2 flex-1">
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleGroupExpanded(group.id);
+              }}
+              className="p-0.5 hover:bg-white/10 rounded transition-colors"
+            >
+              {group.expanded ? (
+                <ChevronDown className="w-4 h-4" />
+              ) : (
+                <ChevronRight className="w-4 h-4" />
+              )}
+            </button>
+
+            {group.expanded ? (
+              <FolderOpen className={`w-4 h-4 ${isLocked ? 'text-gray-500' : 'text-blue-400'}`} />
+            ) : (
+              <Folder className={`w-4 h-4 ${isLocked ? 'text-gray-500' : 'text-blue-400'}`} />
+            )}
+
+            {editingId === group.id && editingType === 'group' ? (
+              <input
+                type="text"
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onBlur={saveEdit}
+                onKeyDown={(e) => e.key === 'Enter' && saveEdit()}
+                onClick={(e) => e.stopPropagation()}
+                className="bg-[#2a2a2a] border border-white/10 rounded px-2 py-1 flex-1 text-sm focus:outline-none focus:border-blue-500/50"
+                autoFocus
+              />
+            ) : (
+              <span className="flex-1 text-sm font-medium">{group.name}</span>
+            )}
+
+            {isLocked && <Lock className="w-3 h-3 text-orange-400" />}
+          </div>
+
+          <div className="flex gap-1">
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                editingId !== group.id && startEditing(group.id, group.name, 'group');
+              }}
+              disabled={isLocked}
+              className={`p-1.5 rounded-lg transition-colors ${
+                isLocked 
+                  ? 'text-white/30 cursor-not-allowed' 
+                  : 'hover:bg-white/10'
+              }`}
+              title={isLocked ? 'Group is locked' : 'Rename Group'}
+            >
+              <Edit2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleGroupVisibility(group.id);
+              }}
+              disabled={isLocked}
+              className={`p-1.5 rounded-lg transition-colors ${
+                isLocked 
+                  ? 'text-white/30 cursor-not-allowed' 
+                  : 'hover:bg-white/10'
+              }`}
+              title={isLocked ? 'Group is locked' : (group.visible ? 'Hide Group' : 'Show Group')}
+            >
+              {group.visible ? (
+                <Eye className="w-4 h-4" />
+              ) : (
+                <EyeOff className="w-4 h-4" />
+              )}
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleGroupLock(group.id);
+              }}
+              disabled={parentLocked}
+              className={`p-1.5 rounded-lg transition-colors text-orange-400 hover:text-orange-300 ${
+                parentLocked 
+                  ? 'text-white/30 cursor-not-allowed' 
+                  : 'hover:bg-white/10'
+              }`}
+              title={parentLocked ? 'Parent group is locked' : (group.locked ? 'Unlock Group' : 'Lock Group')}
+            >
+              {group.locked ? (
+                <Lock className="w-4 h-4" />
+              ) : (
+                <Unlock className="w-4 h-4" />
+              )}
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                removeGroup(group.id);
+              }}
+              disabled={isLocked}
+              className={`p-1.5 rounded-lg transition-colors ${
+                isLocked 
+                  ? 'text-white/30 cursor-not-allowed' 
+                  : 'text-red-400 hover:text-red-300 hover:bg-white/10'
+              }`}
+              title={isLocked ? 'Group is locked' : 'Delete Group'}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Nested groups, then objects */}
+        {group.expanded && (
+          <div className="ml-6 space-y-1">
+            {renderChildren(group.id)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderObject = ({ id, name, visible, locked, object, groupId, parentId }: SceneObject) => {
+    const isLocked = isObjectLocked(id);
+    const ownerId = parentId ?? groupId;
+    const parentLocked = ownerId ? isObjectLocked(ownerId) : false;
+    const hasChildren = objects.some(obj => obj.parentId === id);
+    return (
+      <div key={id} className="space-y-1">
+        <div 
+          className={rowClassName(id, isLocked)}
+          onClick={(e) => handleNodeSelect(object, e)}
+          draggable={!isLocked}
+          onDragStart={(e) => handleDragStart(id, e)}
+          onDragEnd={handleDragEnd}
+          {...dropTarget(id)}
+        >
+          <div className="flex items-center gap-2 flex-1">
+            {object instanceof THREE.Light && (
+              <Lightbulb className={`w-4 h-4 ${isLocked ? 'text-gray-500' : 'text-yellow-400'}`} />
+            )}
+            {editingId === id && editingType === 'object' ? (
+              <input
+                type="text"
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onBlur={saveEdit}
+                onKeyDown={(e) => e.key === 'Enter' && saveEdit()}
+                onClick={(e) => e.stopPropagation()}
+                className="bg-[#2a2a2a] border border-white/10 rounded px-2 py-1 w-32 text-sm focus:outline-none focus:border-blue-500/50"
+                autoFocus
+              />
+            ) : (
+              <span className="flex-1 text-sm">{name}</span>
+            )}
+            {isLocked && <Lock className="w-3 h-3 text-orange-400" />}
+          </div>
+          <div className="flex gap-1">
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                editingId !== id && startEditing(id, name, 'object');
+              }}
+              disabled={isLocked}
+              className={`p-1.5 rounded-lg transition-colors ${
+                isLocked 
+                  ? 'text-white/30 cursor-not-allowed' 
+                  : 'hover:bg-white/10'
+              }`}
+              title={isLocked ? 'Object is locked' : 'Rename'}
+            >
+              <Edit2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleVisibility(id);
+              }}
+              disabled={isLocked}
+              className={`p-1.5 rounded-lg transition-colors ${
+                isLocked 
+                  ? 'text-white/30 cursor-not-allowed' 
+                  : 'hover:bg-white/10'
+              }`}
+              title={isLocked ? 'Object is locked' : (visible ? 'Hide' : 'Show')}
+            >
+              {visible ? (
+                <Eye className="w-4 h-4" />
+              ) : (
+                <EyeOff className="w-4 h-4" />
+              )}
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleLock(id);
+              }}
+              disabled={parentLocked}
+              className={`p-1.5 rounded-lg transition-colors text-orange-400 hover:text-orange-300 ${
+                parentLocked 
+                  ? 'text-white/30 cursor-not-allowed' 
+                  : 'hover:bg-white/10'
+              }`}
+              title={parentLocked ? 'Parent is locked' : (locked ? 'Unlock Object' : 'Lock Object')}
+            >
+              {locked ? (
+                <Lock className="w-4 h-4" />
+              ) : (
+                <Unlock className="w-4 h-4" />
+              )}
+            </button>
+            {ownerId && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (groupId) {
+                    removeObjectFromGroup(id);
+                  } else {
+                    setParent([id], null);
+                  }
+                }}
+                disabled={isLocked}
+                className={`p-1.5 rounded-lg transition-colors ${
+                  isLocked 
+                    ? 'text-white/30 cursor-not-allowed' 
+                    : 'text-orange-400 hover:text-orange-300 hover:bg-white/10'
+                }`}
+                title={isLocked ? 'Object is locked' : (groupId ? 'Remove from Group' : 'Clear Parent')}
+              >
+                {groupId ? <CornerLeftUp className="w-4 h-4" /> : <Unlink className="w-4 h-4" />}
+              </button>
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                removeObject(id);
+              }}
+              disabled={isLocked}
+              className={`p-1.5 rounded-lg transition-colors ${
+                isLocked 
+                  ? 'text-white/30 cursor-not-allowed' 
+                  : 'text-red-400 hover:text-red-300 hover:bg-white/10'
+              }`}
+              title={isLocked ? 'Object is locked' : 'Delete'}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Objects parented to this one */}
+        {hasChildren && (
+          <div className="ml-6 space-y-1">
+            {renderChildren(id)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderChildren = (parentId: string | undefined) => {
+    const children = getChildNodes({ objects, groups }, parentId);
+    return (
+      <>
+        {children.groups.map(renderGroup)}
+        {children.objects.map(renderObject)}
+      </>
+    );
+  };
 
   return (
     <div className="absolute right-4 top-4 bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 p-4 w-80 border border-white/5 max-h-[70vh] overflow-y-auto">
@@ -108,6 +482,50 @@ const LayersPanel: React.FC = () => {
         <h2 className="text-lg font-semibold text-white/90">Layers</h2>
         <div className="flex gap-2">
           {selectedObjects.length > 0 && (
+            <div className="relative">
+              <button
+                onClick={() => setShowDuplicateOptions(!showDuplicateOptions)}
+                className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-white/70"
+                title="Duplicate"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+              {showDuplicateOptions && (
+                <div className="absolute right-0 top-8 bg-[#2a2a2a] border border-white/10 rounded-lg shadow-lg z-10 min-w-48">
+                  {([
+                    [false, Copy, 'Duplicate', keyBindings.duplicate],
+                    [true, Link, 'Linked Duplicate', keyBindings.linkedDuplicate]
+                  ] as const).map(([linked, Icon, label, keys]) => (
+                    <button
+                      key={label}
+                      onClick={() => {
+                        duplicateSelectedObjects(linked);
+                        setShowDuplicateOptions(false);
+                      }}
+                      className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                      title={linked ? 'Copies share geometry, so editing the vertices of one edits all' : 'Independent copies'}
+                    >
+                      <Icon className="w-4 h-4" />
+                      <span className="flex-1">{label}</span>
+                      {keys.length > 0 && <span className="text-xs text-white/30">{formatKeyCombo(keys[0])}</span>}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => {
+                      setShowArrayDialog(true);
+                      setShowDuplicateOptions(false);
+                    }}
+                    className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                  >
+                    <Rows3 className="w-4 h-4" />
+                    Array Duplicate…
+                  </button>
+                </div>
+              )}
+              {showArrayDialog && <ArrayDuplicateDialog onClose={() => setShowArrayDialog(false)} />}
+            </div>
+          )}
+          {selectedIds.length > 0 && (
             <div className="relative">
               <button
                 onClick={() => setShowGroupOptions(!showGroupOptions)}
@@ -125,32 +543,45 @@ const LayersPanel: React.FC = () => {
                     <FolderPlus className="w-4 h-4" />
                     Create New Group
                   </button>
+                  {activeNode && selectedIds.length > 1 && (
+                    <button
+                      onClick={parentSelectedToActive}
+                      className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                      title="Moves the rest of the selection under the last picked item"
+                    >
+                      <Link className="w-4 h-4" />
+                      Parent to {activeNode.name}
+                    </button>
+                  )}
                   {groups.length > 0 && (
                     <>
                       <div className="border-t border-white/10 my-1"></div>
                       <div className="px-3 py-1 text-xs text-white/50 uppercase tracking-wider">
                         Move to Group
                       </div>
-                      {groups.map(group => (
-                        <button
-                          key={group.id}
-                          onClick={() => moveSelectedToGroup(group.id)}
-                          disabled={group.locked}
-                          className={`w-full px-3 py-2 text-left text-sm hover:bg-white/5 flex items-center gap-2 ${
-                            group.locked ? 'text-white/30 cursor-not-allowed' : 'text-white/90'
-                          }`}
-                        >
-                          <Folder className="w-4 h-4" />
-                          {group.name}
-                          {group.locked && <Lock className="w-3 h-3 ml-auto" />}
-                        </button>
-                      ))}
+                      {groups.filter(group => !selectedIds.includes(group.id)).map(group => {
+                        const groupLocked = isObjectLocked(group.id);
+                        return (
+                          <button
+                            key={group.id}
+                            onClick={() => moveSelectedToGroup(group.id)}
+                            disabled={groupLocked}
+                            className={`w-full px-3 py-2 text-left text-sm hover:bg-white/5 flex items-center gap-2 ${
+                              groupLocked ? 'text-white/30 cursor-not-allowed' : 'text-white/90'
+                            }`}
+                          >
+                            <Folder className="w-4 h-4" />
+                            {group.name}
+                            {groupLocked && <Lock className="w-3 h-3 ml-auto" />}
+                          </button>
+                        );
+                      })}
                       <button
                         onClick={() => moveSelectedToGroup(null)}
                         className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
                       >
                         <div className="w-4 h-4" />
-                        Ungroup
+                        Move to Top Level
                       </button>
                     </>
                   )}
@@ -158,6 +589,59 @@ const LayersPanel: React.FC = () => {
               )}
             </div>
           )}
+          {selectedObjects.length >= 2 && (
+            <div className="relative">
+              <button
+                onClick={() => setShowBooleanOptions(!showBooleanOptions)}
+                className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-white/70"
+                title="Boolean Operations"
+              >
+                <Combine className="w-4 h-4" />
+              </button>
+              {showBooleanOptions && (
+                <div className="absolute right-0 top-8 bg-[#2a2a2a] border border-white/10 rounded-lg shadow-lg z-10 min-w-48">
+                  {!canCombineSelected && (
+                    <div className="px-3 py-2 text-xs text-orange-400">
+                      Selection contains locked or non-mesh objects
+                    </div>
+                  )}
+                  {([
+                    ['union', 'Union'],
+                    ['subtract', 'Subtract (first minus rest)'],
+                    ['intersect', 'Intersect']
+                  ] as const).map(([operation, label]) => (
+                    <button
+                      key={operation}
+                      onClick={() => combineSelected(operation)}
+                      disabled={!canCombineSelected}
+                      className={`w-full px-3 py-2 text-left text-sm hover:bg-white/5 ${
+                        canCombineSelected ? 'text-white/90' : 'text-white/30 cursor-not-allowed'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                  <div className="border-t border-white/10 my-1"></div>
+                  <div className="px-3 py-1 text-xs text-white/50 uppercase tracking-wider">
+                    Operands
+                  </div>
+                  <div className="flex gap-1 px-3 pb-2">
+                    {(['keep', 'hide', 'delete'] as const).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setBooleanOperands(mode)}
+                        className={`flex-1 px-2 py-1 rounded text-xs capitalize transition-colors ${
+                          booleanOperands === mode ? 'bg-blue-500/20 text-blue-400' : 'text-white/70 hover:bg-white/5'
+                        }`}
+                      >
+                        {mode}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
           <button
             onClick={() => createGroup(`Group ${groups.length + 1}`)}
             className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-white/70"
@@ -168,319 +652,12 @@ const LayersPanel: React.FC = () => {
         </div>
       </div>
 
-      <div className="space-y-1">
-        {/* Render Groups */}
-        {groups.map((group) => (
-          <div key={group.id} className="space-y-1">
-            <div className={`flex items-center justify-between p-2 hover:bg-white/5 rounded-lg transition-colors ${
-              group.locked ? 'text-white/50' : 'text-white/90'
-            }`}>
-              <div className="flex items-center gap-2 flex-1">
-                <button
-                  onClick={() => toggleGroupExpanded(group.id)}
-                  className="p-0.5 hover:bg-white/10 rounded transition-colors"
-                >
-                  {group.expanded ? (
-                    <ChevronDown className="w-4 h-4" />
-                  ) : (
-                    <ChevronRight className="w-4 h-4" />
-                  )}
-                </button>
-                
-                {group.expanded ? (
-                  <FolderOpen className={`w-4 h-4 ${group.locked ? 'text-gray-500' : 'text-blue-400'}`} />
-                ) : (
-                  <Folder className={`w-4 h-4 ${group.locked ? 'text-gray-500' : 'text-blue-400'}`} />
-                )}
-
-                {editingId === group.id && editingType === 'group' ? (
-                  <input
-                    type="text"
-                    value={editingName}
-                    onChange={(e) => setEditingName(e.target.value)}
-                    onBlur={saveEdit}
-                    onKeyDown={(e) => e.key === 'Enter' && saveEdit()}
-                    className="bg-[#2a2a2a] border border-white/10 rounded px-2 py-1 flex-1 text-sm focus:outline-none focus:border-blue-500/50"
-                    autoFocus
-                  />
-                ) : (
-                  <span className="flex-1 text-sm font-medium">{group.name}</span>
-                )}
-
-                {group.locked && <Lock className="w-3 h-3 text-orange-400" />}
-              </div>
-
-              <div className="flex gap-1">
-                <button
-                  onClick={() => editingId !== group.id && startEditing(group.id, group.name, 'group')}
-                  disabled={group.locked}
-                  className={`p-1.5 rounded-lg transition-colors ${
-                    group.locked 
-                      ? 'text-white/30 cursor-not-allowed' 
-                      : 'hover:bg-white/10'
-                  }`}
-                  title={group.locked ? 'Group is locked' : 'Rename Group'}
-                >
-                  <Edit2 className="w-4 h-4" />
-                </button>
-                <button
-                  onClick={() => toggleGroupVisibility(group.id)}
-                  disabled={group.locked}
-                  className={`p-1.5 rounded-lg transition-colors ${
-                    group.locked 
-                      ? 'text-white/30 cursor-not-allowed' 
-                      : 'hover:bg-white/10'
-                  }`}
-                  title={group.locked ? 'Group is locked' : (group.visible ? 'Hide Group' : 'Show Group')}
-                >
-                  {group.visible ? (
-                    <Eye className="w-4 h-4" />
-                  ) : (
-                    <EyeOff className="w-4 h-4" />
-                  )}
-                </button>
-                <button
-                  onClick={() => toggleGroupLock(group.id)}
-                  className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-orange-400 hover:text-orange-300"
-                  title={group.locked ? 'Unlock Group' : 'Lock Group'}
-                >
-                  {group.locked ? (
-                    <Lock className="w-4 h-4" />
-                  ) : (
-                    <Unlock className="w-4 h-4" />
-                  )}
-                </button>
-                <button
-                  onClick={() => removeGroup(group.id)}
-                  disabled={group.locked}
-                  className={`p-1.5 rounded-lg transition-colors ${
-                    group.locked 
-                      ? 'text-white/30 cursor-not-allowed' 
-                      : 'text-red-400 hover:text-red-300 hover:bg-white/10'
-                  }`}
-                  title={group.locked ? 'Group is locked' : 'Delete Group'}
-                >
-                  <Trash2 className="w-4 h-4" />
-                </button>
-              </div>
-            </div>
-
-            {/* Group Objects */}
-            {group.expanded && (
-              <div className="ml-6 space-y-1">
-                {objects
-                  .filter(obj => obj.groupId === group.id)
-                  .map(({ id, name, visible, locked }) => {
-                    const isLocked = locked || group.locked;
-                    return (
-                      <div 
-                        key={id} 
-                        className={`flex items-center justify-between p-2 hover:bg-white/5 rounded-lg transition-colors cursor-pointer ${
-                          selectedObjects.includes(id) ? 'bg-blue-500/20 border border-blue-500/30' : ''
-                        } ${isLocked ? 'text-white/50' : 'text-white/90'}`}
-                        onClick={(e) => handleObjectSelect(id, e)}
-                      >
-                        <div className="flex items-center gap-2 flex-1">
-                          {editingId === id && editingType === 'object' ? (
-                            <input
-                              type="text"
-                              value={editingName}
-                              onChange={(e) => setEditingName(e.target.value)}
-                              onBlur={saveEdit}
-                              onKeyDown={(e) => e.key === 'Enter' && saveEdit()}
-                              className="bg-[#2a2a2a] border border-white/10 rounded px-2 py-1 w-32 text-sm focus:outline-none focus:border-blue-500/50"
-                              autoFocus
-                            />
-                          ) : (
-                            <span className="flex-1 text-sm">{name}</span>
-                          )}
-                          {isLocked && <Lock className="w-3 h-3 text-orange-400" />}
-                        </div>
-                        <div className="flex gap-1">
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              editingId !== id && startEditing(id, name, 'object');
-                            }}
-                            disabled={isLocked}
-                            className={`p-1.5 rounded-lg transition-colors ${
-                              isLocked 
-                                ? 'text-white/30 cursor-not-allowed' 
-                                : 'hover:bg-white/10'
-                            }`}
-                            title={isLocked ? 'Object is locked' : 'Rename'}
-                          >
-                            <Edit2 className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              toggleVisibility(id);
-                            }}
-                            disabled={isLocked}
-                            className={`p-1.5 rounded-lg transition-colors ${
-                              isLocked 
-                                ? 'text-white/30 cursor-not-allowed' 
-                                : 'hover:bg-white/10'
-                            }`}
-                            title={isLocked ? 'Object is locked' : (visible ? 'Hide' : 'Show')}
-                          >
-                            {visible ? (
-                              <Eye className="w-4 h-4" />
-                            ) : (
-                              <EyeOff className="w-4 h-4" />
-                            )}
-                          </button>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              toggleLock(id);
-                            }}
-                            disabled={group.locked}
-                            className={`p-1.5 rounded-lg transition-colors text-orange-400 hover:text-orange-300 ${
-                              group.locked 
-                                ? 'text-white/30 cursor-not-allowed' 
-                                : 'hover:bg-white/10'
-                            }`}
-                            title={group.locked ? 'Group is locked' : (locked ? 'Unlock Object' : 'Lock Object')}
-                          >
-                            {locked ? (
-                              <Lock className="w-4 h-4" />
-                            ) : (
-                              <Unlock className="w-4 h-4" />
-                            )}
-                          </button>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              removeObjectFromGroup(id);
-                            }}
-                            disabled={isLocked}
-                            className={`p-1.5 rounded-lg transition-colors ${
-                              isLocked 
-                                ? 'text-white/30 cursor-not-allowed' 
-                                : 'text-orange-400 hover:text-orange-300 hover:bg-white/10'
-                            }`}
-                            title={isLocked ? 'Object is locked' : 'Remove from Group'}
-                          >
-                            <Edit2 className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              removeObject(id);
-                            }}
-                            disabled={isLocked}
-                            className={`p-1.5 rounded-lg transition-colors ${
-                              isLocked 
-                                ? 'text-white/30 cursor-not-allowed' 
-                                : 'text-red-400 hover:text-red-300 hover:bg-white/10'
-                            }`}
-                            title={isLocked ? 'Object is locked' : 'Delete'}
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
-                        </div>
-                      </div>
-                    );
-                  })}
-              </div>
-            )}
-          </div>
-        ))}
-
-        {/* Ungrouped Objects */}
-        {ungroupedObjects.map(({ id, name, visible, locked }) => (
-          <div 
-            key={id} 
-            className={`flex items-center justify-between p-2 hover:bg-white/5 rounded-lg transition-colors cursor-pointer ${
-              selectedObjects.includes(id) ? 'bg-blue-500/20 border border-blue-500/30' : ''
-            } ${locked ? 'text-white/50' : 'text-white/90'}`}
-            onClick={(e) => handleObjectSelect(id, e)}
-          >
-            <div className="flex items-center gap-2 flex-1">
-              {editingId === id && editingType === 'object' ? (
-                <input
-                  type="text"
-                  value={editingName}
-                  onChange={(e) => setEditingName(e.target.value)}
-                  onBlur={saveEdit}
-                  onKeyDown={(e) => e.key === 'Enter' && saveEdit()}
-                  className="bg-[#2a2a2a] border border-white/10 rounded px-2 py-1 w-32 text-sm focus:outline-none focus:border-blue-500/50"
-                  autoFocus
-                />
-              ) : (
-                <span className="flex-1 text-sm">{name}</span>
-              )}
-              {locked && <Lock className="w-3 h-3 text-orange-400" />}
-            </div>
-            <div className="flex gap-1">
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  editingId !== id && startEditing(id, name, 'object');
-                }}
-                disabled={locked}
-                className={`p-1.5 rounded-lg transition-colors ${
-                  locked 
-                    ? 'text-white/30 cursor-not-allowed' 
-                    : 'hover:bg-white/10'
-                }`}
-                title={locked ? 'Object is locked' : 'Rename'}
-              >
-                <Edit2 className="w-4 h-4" />
-              </button>
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  toggleVisibility(id);
-                }}
-                disabled={locked}
-                className={`p-1.5 rounded-lg transition-colors ${
-                  locked 
-                    ? 'text-white/30 cursor-not-allowed' 
-                    : 'hover:bg-white/10'
-                }`}
-                title={locked ? 'Object is locked' : (visible ? 'Hide' : 'Show')}
-              >
-                {visible ? (
-                  <Eye className="w-4 h-4" />
-                ) : (
-                  <EyeOff className="w-4 h-4" />
-                )}
-              </button>
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  toggleLock(id);
-                }}
-                className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-orange-400 hover:text-orange-300"
-                title={locked ? 'Unlock Object' : 'Lock Object'}
-              >
-                {locked ? (
-                  <Lock className="w-4 h-4" />
-                ) : (
-                  <Unlock className="w-4 h-4" />
-                )}
-              </button>
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  removeObject(id);
-                }}
-                disabled={locked}
-                className={`p-1.5 rounded-lg transition-colors ${
-                  locked 
-                    ? 'text-white/30 cursor-not-allowed' 
-                    : 'text-red-400 hover:text-red-300 hover:bg-white/10'
-                }`}
-                title={locked ? 'Object is locked' : 'Delete'}
-              >
-                <Trash2 className="w-4 h-4" />
-              </button>
-            </div>
-          </div>
-        ))}
+      {/* Dropping on the list itself, below the rows, moves to the top level */}
+      <div
+        className={`space-y-1 pb-2 rounded-lg ${dropTargetId === 'root' ? 'ring-1 ring-blue-400/60' : ''}`}
+        {...dropTarget('root')}
+      >
+        {renderChildren(undefined)}
 
         {objects.length === 0 && (
           <div className="text-center py-8 text-white/50">
@@ -490,13 +667,13 @@ const LayersPanel: React.FC = () => {
         )}
       </div>
 
-      {selectedObjects.length > 0 && (
+      {selectedIds.length > 0 && (
         <div className="mt-4 p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg">
           <p className="text-sm text-blue-400">
-            {selectedObjects.length} object{selectedObjects.length > 1 ? 's' : ''} selected
+            {selectedIds.length} item{selectedIds.length > 1 ? 's' : ''} selected
           </p>
           <p className="text-xs text-white/50 mt-1">
-            Use Ctrl/Cmd + click to select multiple objects
+            Use Ctrl/Cmd + click to select multiple objects, drag rows to parent them
           </p>
         </div>
       )}
@@ -0,0 +1,116 @@
+import React from 'react';
+import * as THREE from 'three';
+import { useSceneStore } from '../store/sceneStore';
+import { type LightSettings, LIGHT_LABELS, SHADOW_LIGHT_TYPES, getLightSettings, getLightType } from '../store/lights';
+import { ColorField, NumberField, Slider } from './PropertyFields';
+
+// The light section of the properties panel. It shows the values of the
+// active light; edits apply to every selected light.
+const LightEditor: React.FC<{ light: THREE.Light; locked: boolean }> = ({ light, locked }) => {
+  const { updateLight } = useSceneStore();
+  const type = getLightType(light);
+  if (!type) return null;
+
+  const settings = getLightSettings(light);
+  const update = (changes: Partial<LightSettings>) => {
+    if (!locked) updateLight(changes);
+  };
+
+  return (
+    <div className="space-y-4 border-t border-white/10 pt-4">
+      <h3 className="font-medium text-white/70 text-sm">{LIGHT_LABELS[type]}</h3>
+
+      <ColorField
+        label={type === 'hemisphere' ? 'Sky Color' : 'Color'}
+        value={settings.color}
+        locked={locked}
+        onChange={(color) => update({ color })}
+      />
+      {type === 'hemisphere' && (
+        <ColorField
+          label="Ground Color"
+          value={settings.groundColor}
+          locked={locked}
+          onChange={(groundColor) => update({ groundColor })}
+        />
+      )}
+
+      <NumberField
+        label="Intensity"
+        value={settings.intensity}
+        locked={locked}
+        onChange={(intensity) => update({ intensity })}
+      />
+
+      {(type === 'point' || type === 'spot') && (
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField
+            label="Range (0 = unlimited)"
+            value={settings.distance}
+            step={0.5}
+            locked={locked}
+            onChange={(distance) => update({ distance })}
+          />
+          <NumberField
+            label="Decay"
+            value={settings.decay}
+            locked={locked}
+            onChange={(decay) => update({ decay })}
+          />
+        </div>
+      )}
+
+      {type === 'spot' && (
+        <>
+          <Slider
+            label="Cone Angle"
+            value={THREE.MathUtils.radToDeg(settings.angle)}
+            min={1}
+            max={90}
+            step={1}
+            format={(value) => `${Math.round(value)}°`}
+            locked={locked}
+            onChange={(value) => update({ angle: THREE.MathUtils.degToRad(value) })}
+          />
+          <Slider
+            label="Penumbra"
+            value={settings.penumbra}
+            locked={locked}
+            onChange={(penumbra) => update({ penumbra })}
+          />
+        </>
+      )}
+
+      {type === 'area' && (
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField
+            label="Width"
+            value={settings.width}
+            locked={locked}
+            onChange={(width) => update({ width })}
+          />
+          <NumberField
+            label="Height"
+            value={settings.height}
+            locked={locked}
+            onChange={(height) => update({ height })}
+          />
+        </div>
+      )}
+
+      {SHADOW_LIGHT_TYPES.includes(type) && (
+        <label className="flex items-center gap-2 text-sm text-white/70 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.castShadow}
+            onChange={(e) => update({ castShadow: e.target.checked })}
+            disabled={locked}
+          />
+          Cast shadows
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default LightEditor;
@@ -0,0 +1,53 @@
+import { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { RectAreaLightHelper } from 'three/examples/jsm/helpers/RectAreaLightHelper.js';
+import { useSceneStore } from '../store/sceneStore';
+import { isNodeShown } from '../store/hierarchy';
+import * as THREE from 'three';
+
+type LightHelper =
+  | THREE.PointLightHelper
+  | THREE.SpotLightHelper
+  | THREE.DirectionalLightHelper
+  | THREE.HemisphereLightHelper
+  | RectAreaLightHelper;
+
+const createHelper = (light: THREE.Light): LightHelper | null => {
+  if (light instanceof THREE.SpotLight) return new THREE.SpotLightHelper(light);
+  if (light instanceof THREE.PointLight) return new THREE.PointLightHelper(light, 0.25);
+  if (light instanceof THREE.DirectionalLight) return new THREE.DirectionalLightHelper(light, 0.5);
+  if (light instanceof THREE.HemisphereLight) return new THREE.HemisphereLightHelper(light, 0.5);
+  if (light instanceof THREE.RectAreaLight) return new RectAreaLightHelper(light);
+  return null;
+};
+
+// Shows where each light is and which way it shines. Helpers follow their
+// light's world transform, so they sit at the top of the scene.
+const LightHelpers = () => {
+  const { objects, groups } = useSceneStore();
+  // The lists change when things are added, removed, hidden or moved in the
+  // hierarchy, not while they are transformed
+  const helpers = useMemo(
+    () => objects
+      .filter(({ id, object }) => object instanceof THREE.Light && isNodeShown({ objects, groups }, id))
+      .flatMap(({ object }) => createHelper(object as THREE.Light) ?? []),
+    [objects, groups]
+  );
+
+  useEffect(() => () => helpers.forEach(helper => helper.dispose()), [helpers]);
+
+  // Picks up moves and changes to color, angle and size
+  useFrame(() => helpers.forEach(helper => {
+    if ('update' in helper) helper.update();
+  }));
+
+  return (
+    <>
+      {helpers.map(helper => (
+        <primitive key={helper.uuid} object={helper} raycast={() => null} />
+      ))}
+    </>
+  );
+};
+
+export default LightHelpers;
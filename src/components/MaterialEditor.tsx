@@ -0,0 +1,161 @@
+import React from 'react';
+import { BookmarkPlus, Trash2, Unlink } from 'lucide-react';
+import * as THREE from 'three';
+import { useSceneStore } from '../store/sceneStore';
+import { type MaterialSide, type MaterialSettings, getEditableMaterial, getMaterialSettings } from '../store/materials';
+import { ColorField, Slider } from './PropertyFields';
+import { inputClassName } from './fieldStyles';
+
+const SIDE_OPTIONS: Array<[MaterialSide, string]> = [
+  ['front', 'Front'],
+  ['back', 'Back'],
+  ['double', 'Both Sides'],
+];
+
+const SLIDERS: Array<{ key: 'opacity' | 'roughness' | 'metalness'; label: string }> = [
+  { key: 'opacity', label: 'Opacity' },
+  { key: 'roughness', label: 'Roughness' },
+  { key: 'metalness', label: 'Metalness' },
+];
+
+// The material section of the properties panel: which library material the
+// selection uses, if any, and the values of the active object's material.
+// Edits apply to every selected object.
+const MaterialEditor: React.FC<{ locked: boolean }> = ({ locked }) => {
+  const {
+    selectedObject,
+    selectedObjects,
+    materialLibrary,
+    updateMaterial,
+    addLibraryMaterial,
+    assignLibraryMaterial,
+    makeMaterialUnique,
+    renameLibraryMaterial,
+    removeLibraryMaterial
+  } = useSceneStore();
+
+  // Objects with per-face materials (boolean results) have no single
+  // material. With several objects selected, the active one shows its
+  // material if it can.
+  const candidates = selectedObject ? [selectedObject, ...selectedObjects] : selectedObjects;
+  const material = candidates.reduce<THREE.MeshStandardMaterial | null>(
+    (found, object) => found ?? getEditableMaterial(object),
+    null
+  );
+  if (!material) return null;
+
+  const settings = getMaterialSettings(material);
+  const libraryEntry = materialLibrary.find(entry => entry.material === material);
+  const canAssign = !locked && candidates.some(object => object instanceof THREE.Mesh);
+
+  const update = (changes: Partial<MaterialSettings>) => {
+    if (!locked) updateMaterial(changes);
+  };
+
+  return (
+    <div className="space-y-4 border-t border-white/10 pt-4">
+      <div>
+        <h3 className="font-medium mb-2 text-white/70 text-sm">Material</h3>
+        <div className="flex gap-2">
+          <select
+            value={libraryEntry?.id ?? ''}
+            onChange={(e) => e.target.value ? assignLibraryMaterial(e.target.value) : makeMaterialUnique()}
+            disabled={!canAssign}
+            className={`flex-1 min-w-0 ${inputClassName(!canAssign)}`}
+          >
+            <option value="">Own material</option>
+            {materialLibrary.map(entry => (
+              <option key={entry.id} value={entry.id}>{entry.name}</option>
+            ))}
+          </select>
+          {libraryEntry ? (
+            <button
+              onClick={makeMaterialUnique}
+              disabled={locked}
+              className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-white/70 disabled:text-white/30"
+              title="Give the Selection Its Own Copy"
+            >
+              <Unlink className="w-4 h-4" />
+            </button>
+          ) : (
+            <button
+              onClick={() => addLibraryMaterial(`Material ${materialLibrary.length + 1}`)}
+              disabled={locked}
+              className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-white/70 disabled:text-white/30"
+              title="Save to Library and Share with the Selection"
+            >
+              <BookmarkPlus className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        {libraryEntry && (
+          <div className="flex gap-2 mt-2">
+            <input
+              type="text"
+              value={libraryEntry.name}
+              onChange={(e) => renameLibraryMaterial(libraryEntry.id, e.target.value)}
+              className={`flex-1 min-w-0 ${inputClassName(false)}`}
+              title="Library Material Name"
+            />
+            <button
+              onClick={() => removeLibraryMaterial(libraryEntry.id)}
+              className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-red-400 hover:text-red-300"
+              title="Remove from Library (objects keep a copy)"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+        {libraryEntry && (
+          <p className="text-xs text-white/50 mt-1">Changes apply to every object using this material</p>
+        )}
+      </div>
+
+      <ColorField label="Color" value={settings.color} locked={locked} onChange={(color) => update({ color })} />
+
+      {SLIDERS.map(({ key, label }) => (
+        <Slider key={key} label={label} value={settings[key]} locked={locked} onChange={(value) => update({ [key]: value })} />
+      ))}
+
+      <ColorField label="Emissive" value={settings.emissive} locked={locked} onChange={(emissive) => update({ emissive })} />
+      <Slider
+        label="Emissive Intensity"
+        value={settings.emissiveIntensity}
+        max={10}
+        format={(value) => value.toFixed(2)}
+        locked={locked}
+        onChange={(emissiveIntensity) => update({ emissiveIntensity })}
+      />
+
+      <div>
+        <h3 className="font-medium mb-2 text-white/70 text-sm">Side</h3>
+        <select
+          value={settings.side}
+          onChange={(e) => update({ side: e.target.value as MaterialSide })}
+          disabled={locked}
+          className={`w-full ${inputClassName(locked)}`}
+        >
+          {SIDE_OPTIONS.map(([side, label]) => (
+            <option key={side} value={side}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex gap-4">
+        {([['flatShading', 'Flat shading'], ['wireframe', 'Wireframe']] as const).map(([key, label]) => (
+          <label key={key} className="flex items-center gap-2 text-sm text-white/70 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings[key]}
+              onChange={(e) => update({ [key]: e.target.checked })}
+              disabled={locked}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MaterialEditor;
@@ -0,0 +1,92 @@
+// Inputs shared by the material, light and shape sections of the properties panel
+import { inputClassName } from './fieldStyles';
+
+export const ColorField = ({ label, value, locked, onChange }: {
+  label: string;
+  value: string;
+  locked: boolean;
+  onChange: (color: string) => void;
+}) => (
+  <div>
+    <h3 className="font-medium mb-2 text-white/70 text-sm">{label}</h3>
+    <div className="flex gap-2">
+      <input
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={locked}
+        className={`w-12 h-8 rounded cursor-pointer border ${
+          locked ? 'bg-[#1a1a1a] border-white/5 cursor-not-allowed opacity-50' : 'bg-[#2a2a2a] border-white/10'
+        }`}
+      />
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={locked}
+        className={`flex-1 min-w-0 ${inputClassName(locked)}`}
+      />
+    </div>
+  </div>
+);
+
+export const Slider = ({ label, value, min = 0, max = 1, step = 0.01, format, locked, onChange }: {
+  label: string;
+  value: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  // Fractions show as percentages unless given
+  format?: (value: number) => string;
+  locked: boolean;
+  onChange: (value: number) => void;
+}) => (
+  <div>
+    <h3 className="font-medium mb-2 text-white/70 text-sm">{label}</h3>
+    <div className="flex gap-2 items-center">
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        disabled={locked}
+        className={`flex-1 h-2 rounded-lg appearance-none cursor-pointer ${
+          locked ? 'bg-[#1a1a1a] cursor-not-allowed opacity-50' : 'bg-[#2a2a2a]'
+        }`}
+      />
+      <span className={`text-sm w-12 text-right ${locked ? 'text-white/30' : 'text-white/90'}`}>
+        {format ? format(value) : `${Math.round(value * 100)}%`}
+      </span>
+    </div>
+  </div>
+);
+
+// Values above max are left to the store to clamp; the range shows on hover
+export const NumberField = ({ label, value, step = 0.1, min = 0, max, locked, onChange }: {
+  label: string;
+  value: number;
+  step?: number;
+  min?: number;
+  max?: number;
+  locked: boolean;
+  onChange: (value: number) => void;
+}) => (
+  <div title={max === undefined ? undefined : `From ${min} to ${max}`}>
+    <label className="text-xs text-white/50 block mb-1">{label}</label>
+    <input
+      type="number"
+      value={value}
+      step={step}
+      min={min}
+      max={max}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        if (!isNaN(parsed) && parsed >= min) onChange(parsed);
+      }}
+      disabled={locked}
+      className={`w-full ${inputClassName(locked)}`}
+    />
+  </div>
+);
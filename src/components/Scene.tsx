@@ -1,10 +1,44 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { Canvas, useThree, useFrame } from '@react-three/fiber';
-import { OrbitControls, TransformControls, Grid } from '@react-three/drei';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useThree, useFrame, ThreeEvent } from '@react-three/fiber';
+import { TransformControls, Grid, Line } from '@react-three/drei';
 import { useSceneStore } from '../store/sceneStore';
+import CameraController from './CameraController';
+import ViewportPanes from './ViewportPanes';
+import ViewportFrames from './ViewportFrames';
+import { importModelFiles, isImportableFile } from '../utils/modelImport';
+import { countPolygons, getFacesCenter, getFaceWorldPositions, getPolygonFaces, getVerticesCenter, getWeldedEdges, weldKey } from '../store/meshUtils';
+import { buildNURBSCurve, buildNURBSSurface, createSurfaceGeometry, getSurfaceLayout } from '../store/nurbs';
+import { GRID_CELL_SIZE, type SnapSettings, getSnapStep, isElementSnapping, snapPosition } from '../store/snapping';
+import { type SnapTarget, type SnapTargetKind, findSnapTarget } from '../store/elementSnapping';
+import { type ViewportPane, createViewportEvents, getActiveViewport, getViewportRect } from '../store/viewports';
+import { getChildNodes, isNodeShown, withoutDescendants } from '../store/hierarchy';
+import { raycastLight } from '../store/lights';
+import LightHelpers from './LightHelpers';
 import * as THREE from 'three';
 
-const VertexCoordinates = ({ position, onPositionChange }) => {
+const SNAP_INDICATOR_COLORS: Record<SnapTargetKind, string> = {
+  vertex: '#ff44ff',
+  edge: '#44ddff',
+  face: '#ffaa33'
+};
+
+// Snap steps for a TransformControls gizmo, null where snapping is off
+const getGizmoSnaps = (snapping: SnapSettings) => ({
+  translationSnap: getSnapStep(snapping, 'translate'),
+  rotationSnap: getSnapStep(snapping, 'rotate'),
+  scaleSnap: getSnapStep(snapping, 'scale')
+});
+
+interface VertexCoordinatesProps {
+  position: THREE.Vector3 | null;
+  vertexCount: number;
+  onPositionChange: (position: THREE.Vector3) => void;
+  onCommit: () => void;
+}
+
+// Shows the centroid of the selected vertices; typing a coordinate moves the
+// whole selection by the difference
+const VertexCoordinates = ({ position, vertexCount, onPositionChange, onCommit }: VertexCoordinatesProps) => {
   const [localPosition, setLocalPosition] = useState({ x: 0, y: 0, z: 0 });
 
   useEffect(() => {
@@ -32,7 +66,7 @@ const VertexCoordinates = ({ position, onPositionChange }) => {
     onPositionChange(newPosition);
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent, axis: 'x' | 'y' | 'z') => {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       e.currentTarget.blur();
     }
@@ -41,48 +75,36 @@ const VertexCoordinates = ({ position, onPositionChange }) => {
   return (
     <div className="absolute right-4 bottom-4 bg-black/90 text-white p-4 rounded-lg font-mono border border-white/20">
       <div className="mb-2">
-        <h3 className="text-sm font-medium text-white/70">Vertex Position</h3>
+        <h3 className="text-sm font-medium text-white/70">
+          {vertexCount > 1 ? `Vertex Center (${vertexCount} vertices)` : 'Vertex Position'}
+        </h3>
       </div>
-      <div className="space-y-2">
-        <div className="flex items-center gap-2">
-          <label className="w-8 text-sm font-medium">X:</label>
-          <input
-            type="number"
-            value={localPosition.x}
-            onChange={(e) => handleChange('x', e.target.value)}
-            onKeyDown={(e) => handleKeyDown(e, 'x')}
-            className="bg-gray-800 px-2 py-1 rounded w-24 text-right text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:bg-gray-700"
-            step="0.1"
-          />
-        </div>
-        <div className="flex items-center gap-2">
-          <label className="w-8 text-sm font-medium">Y:</label>
-          <input
-            type="number"
-            value={localPosition.y}
-            onChange={(e) => handleChange('y', e.target.value)}
-            onKeyDown={(e) => handleKeyDown(e, 'y')}
-            className="bg-gray-800 px-2 py-1 rounded w-24 text-right text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:bg-gray-700"
-            step="0.1"
-          />
-        </div>
-        <div className="flex items-center gap-2">
-          <label className="w-8 text-sm font-medium">Z:</label>
-          <input
-            type="number"
-            value={localPosition.z}
-            onChange={(e) => handleChange('z', e.target.value)}
-            onKeyDown={(e) => handleKeyDown(e, 'z')}
-            className="bg-gray-800 px-2 py-1 rounded w-24 text-right text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:bg-gray-700"
-            step="0.1"
-          />
-        </div>
+      <div className="space-y-2" onBlur={onCommit}>
+        {(['x', 'y', 'z'] as const).map((axis) => (
+          <div key={axis} className="flex items-center gap-2">
+            <label className="w-8 text-sm font-medium">{axis.toUpperCase()}:</label>
+            <input
+              type="number"
+              value={localPosition[axis]}
+              onChange={(e) => handleChange(axis, e.target.value)}
+              onKeyDown={handleKeyDown}
+              className="bg-gray-800 px-2 py-1 rounded w-24 text-right text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:bg-gray-700"
+              step="0.1"
+            />
+          </div>
+        ))}
       </div>
     </div>
   );
 };
 
-const EdgeCoordinates = ({ position, onPositionChange }) => {
+interface EdgeCoordinatesProps {
+  position: THREE.Vector3 | null;
+  onPositionChange: (position: THREE.Vector3) => void;
+  onCommit: () => void;
+}
+
+const EdgeCoordinates = ({ position, onPositionChange, onCommit }: EdgeCoordinatesProps) => {
   const [localPosition, setLocalPosition] = useState({ x: 0, y: 0, z: 0 });
 
   useEffect(() => {
@@ -121,7 +143,7 @@ const EdgeCoordinates = ({ position, onPositionChange }) => {
       <div className="mb-2">
         <h3 className="text-sm font-medium text-white/70">Edge Midpoint</h3>
       </div>
-      <div className="space-y-2">
+      <div className="space-y-2" onBlur={onCommit}>
         <div className="flex items-center gap-2">
           <label className="w-8 text-sm font-medium">X:</label>
           <input
@@ -160,69 +182,96 @@ const EdgeCoordinates = ({ position, onPositionChange }) => {
   );
 };
 
-const VertexCountSelector = () => {
-  const { selectedObject, updateCylinderVertices, updateSphereVertices, isObjectLocked } = useSceneStore();
+interface FaceCoordinatesProps {
+  position: THREE.Vector3 | null;
+  faceCount: number;
+  onPositionChange: (position: THREE.Vector3) => void;
+  onCommit: () => void;
+}
 
-  if (!(selectedObject instanceof THREE.Mesh)) {
-    return null;
-  }
+const FaceCoordinates = ({ position, faceCount, onPositionChange, onCommit }: FaceCoordinatesProps) => {
+  const { faceDragMode, setFaceDragMode } = useSceneStore();
+  const [localPosition, setLocalPosition] = useState({ x: 0, y: 0, z: 0 });
 
-  // Check if object is locked
-  const selectedObj = useSceneStore.getState().objects.find(obj => obj.object === selectedObject);
-  if (selectedObj && isObjectLocked(selectedObj.id)) {
-    return null;
-  }
+  useEffect(() => {
+    if (position) {
+      setLocalPosition({
+        x: parseFloat(position.x.toFixed(3)),
+        y: parseFloat(position.y.toFixed(3)),
+        z: parseFloat(position.z.toFixed(3))
+      });
+    }
+  }, [position]);
 
-  const isCylinder = selectedObject.geometry instanceof THREE.CylinderGeometry;
-  const isSphere = selectedObject.geometry instanceof THREE.SphereGeometry;
+  if (!position) return null;
 
-  if (!isCylinder && !isSphere) {
-    return null;
-  }
+  const handleChange = (axis: 'x' | 'y' | 'z', value: string) => {
+    const numValue = parseFloat(value) || 0;
+    const newLocalPosition = { ...localPosition, [axis]: numValue };
+    setLocalPosition(newLocalPosition);
 
-  let currentVertexCount;
-  let options;
-  let onChange;
+    const newPosition = new THREE.Vector3(
+      newLocalPosition.x,
+      newLocalPosition.y,
+      newLocalPosition.z
+    );
+    onPositionChange(newPosition);
+  };
 
-  if (isCylinder) {
-    currentVertexCount = selectedObject.geometry.parameters.radialSegments;
-    options = [
-      { value: 32, label: '32 Vertices' },
-      { value: 16, label: '16 Vertices' },
-      { value: 8, label: '8 Vertices' }
-    ];
-    onChange = updateCylinderVertices;
-  } else {
-    currentVertexCount = selectedObject.geometry.parameters.widthSegments;
-    options = [
-      { value: 64, label: '64 Vertices' },
-      { value: 32, label: '32 Vertices' },
-      { value: 16, label: '16 Vertices' },
-      { value: 8, label: '8 Vertices' }
-    ];
-    onChange = updateSphereVertices;
-  }
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.currentTarget.blur();
+    }
+  };
 
   return (
-    <div className="absolute left-1/2 top-4 -translate-x-1/2 bg-black/75 text-white p-4 rounded-lg">
-      <div className="flex items-center gap-2">
-        <label className="text-sm font-medium">Vertex Count:</label>
-        <select
-          className="bg-gray-800 px-3 py-1.5 rounded text-sm"
-          onChange={(e) => onChange(parseInt(e.target.value))}
-          value={currentVertexCount}
-        >
-          {options.map(({ value, label }) => (
-            <option key={value} value={value}>{label}</option>
-          ))}
-        </select>
+    <div className="absolute right-4 bottom-4 bg-black/90 text-white p-4 rounded-lg font-mono border border-white/20">
+      <div className="mb-2">
+        <h3 className="text-sm font-medium text-white/70">
+          Face Center{faceCount > 1 ? ` (${faceCount} faces)` : ''}
+        </h3>
+      </div>
+      <div className="space-y-2" onBlur={onCommit}>
+        {(['x', 'y', 'z'] as const).map((axis) => (
+          <div key={axis} className="flex items-center gap-2">
+            <label className="w-8 text-sm font-medium">{axis.toUpperCase()}:</label>
+            <input
+              type="number"
+              value={localPosition[axis]}
+              onChange={(e) => handleChange(axis, e.target.value)}
+              onKeyDown={handleKeyDown}
+              className="bg-gray-800 px-2 py-1 rounded w-24 text-right text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:bg-gray-700"
+              step="0.1"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="mt-3 flex gap-1">
+        {(['normal', 'free'] as const).map((mode) => (
+          <button
+            key={mode}
+            onClick={() => setFaceDragMode(mode)}
+            className={`flex-1 px-2 py-1 rounded text-xs ${
+              faceDragMode === mode ? 'bg-blue-500/30 text-blue-300' : 'bg-gray-800 text-white/70 hover:bg-gray-700'
+            }`}
+          >
+            {mode === 'normal' ? 'Along Normal' : 'Free'}
+          </button>
+        ))}
       </div>
     </div>
   );
 };
 
 const VertexPoints = ({ geometry, object }) => {
-  const { editMode, selectedElements, startVertexDrag, isObjectLocked } = useSceneStore();
+  const { editMode, selectedElements, selectVertex, startVertexDrag, updateVertexDrag, endVertexDrag, isObjectLocked } = useSceneStore();
+  const { camera, raycaster, pointer, size } = useThree();
+  const controls = useThree((state) => state.controls) as unknown as { enabled: boolean } | null;
+  // Where a selected vertex was grabbed, while it is being dragged
+  const [grabPoint, setGrabPoint] = useState<THREE.Vector3 | null>(null);
+  const [snapTarget, setSnapTarget] = useState<SnapTarget | null>(null);
+  const plane = useRef(new THREE.Plane());
+  const intersection = useRef(new THREE.Vector3());
   const positions = geometry.attributes.position;
   const vertices = [];
   const worldMatrix = object.matrixWorld;
@@ -240,6 +289,61 @@ const VertexPoints = ({ geometry, object }) => {
     vertices.push(vertex);
   }
 
+  // Dragging a selected vertex moves the whole selection on a plane facing the camera
+  useEffect(() => {
+    if (!grabPoint) return;
+
+    const cameraDirection = new THREE.Vector3();
+    camera.getWorldDirection(cameraDirection);
+    plane.current.setFromNormalAndCoplanarPoint(cameraDirection, grabPoint);
+    if (controls) controls.enabled = false;
+
+    const moveGrabbedVertexTo = (target: THREE.Vector3) => {
+      // The other selected vertices keep their offsets to the grabbed one
+      const offset = target.clone().sub(grabPoint);
+      updateVertexDrag(new THREE.Matrix4().makeTranslation(offset.x, offset.y, offset.z));
+    };
+
+    const handlePointerMove = () => {
+      const { snapping, objects, groups } = useSceneStore.getState();
+      raycaster.setFromCamera(pointer, camera);
+
+      // Element snapping looks at the other visible meshes under the cursor
+      if (isElementSnapping(snapping)) {
+        const meshes = objects
+          .filter(({ id, object: other }) =>
+            other !== object && other instanceof THREE.Mesh && isNodeShown({ objects, groups }, id))
+          .map(({ object: other }) => other as THREE.Mesh);
+        const paneSize = getViewportRect(getActiveViewport(useSceneStore.getState()), useSceneStore.getState(), size);
+        const target = findSnapTarget(raycaster, camera, pointer, paneSize, meshes);
+        setSnapTarget(target);
+        if (target) {
+          moveGrabbedVertexTo(target.position);
+          return;
+        }
+      }
+
+      if (raycaster.ray.intersectPlane(plane.current, intersection.current)) {
+        moveGrabbedVertexTo(snapPosition(intersection.current, snapping));
+      }
+    };
+
+    const handlePointerUp = () => {
+      setGrabPoint(null);
+      setSnapTarget(null);
+      endVertexDrag();
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      if (controls) controls.enabled = true;
+    };
+  }, [grabPoint, object, camera, raycaster, pointer, size, controls, updateVertexDrag, endVertexDrag]);
+
   return editMode === 'vertex' ? (
     <group>
       {vertices.map((vertex, i) => (
@@ -248,8 +352,18 @@ const VertexPoints = ({ geometry, object }) => {
           position={vertex}
           onClick={(e) => {
             e.stopPropagation();
-            if (editMode === 'vertex' && !objectLocked) {
-              startVertexDrag(i, vertex);
+            // Ignore the click that ends a drag
+            if (editMode === 'vertex' && !objectLocked && e.delta <= 2) {
+              selectVertex(i, e.shiftKey);
+            }
+          }}
+          onPointerDown={(e) => {
+            // Pressing on an already selected vertex starts dragging the selection
+            if (editMode === 'vertex' && !objectLocked && !e.shiftKey && e.button === 0 &&
+                !useSceneStore.getState().selectionTool && selectedElements.vertices.includes(i)) {
+              e.stopPropagation();
+              startVertexDrag();
+              setGrabPoint(vertex.clone());
             }
           }}
         >
@@ -261,11 +375,94 @@ const VertexPoints = ({ geometry, object }) => {
           />
         </mesh>
       ))}
+      {snapTarget && (
+        <mesh position={snapTarget.position} renderOrder={1} raycast={() => null}>
+          <octahedronGeometry args={[snapTarget.kind === 'face' ? 0.06 : 0.09]} />
+          <meshBasicMaterial color={SNAP_INDICATOR_COLORS[snapTarget.kind]} depthTest={false} wireframe />
+        </mesh>
+      )}
     </group>
   ) : null;
 };
 
-const EdgeLines = ({ geometry, object }) => {
+// Moves, rotates or scales the selected vertices around their centroid
+const VertexTransformControls = ({ object, mode, domElement }: {
+  object: THREE.Mesh;
+  mode: 'translate' | 'rotate' | 'scale';
+  domElement?: HTMLElement;
+}) => {
+  const { selectedElements, draggedVertex, snapping, startVertexDrag, updateVertexDrag, endVertexDrag } = useSceneStore();
+  const pivot = useMemo(() => new THREE.Object3D(), []);
+  const startInverse = useRef<THREE.Matrix4 | null>(null);
+
+  useFrame(() => {
+    if (startInverse.current) return;
+    pivot.position.copy(
+      getVerticesCenter(object.geometry, selectedElements.vertices).applyMatrix4(object.matrixWorld)
+    );
+    pivot.quaternion.identity();
+    pivot.scale.set(1, 1, 1);
+    pivot.updateMatrixWorld();
+  });
+
+  // Another drag (typed coordinates, dragging a vertex) owns the selection
+  if (draggedVertex && !startInverse.current) return null;
+
+  return (
+    <>
+      <primitive object={pivot} />
+      <TransformControls
+        object={pivot}
+        mode={mode}
+        domElement={domElement}
+        {...getGizmoSnaps(snapping)}
+        onMouseDown={() => {
+          pivot.updateMatrixWorld();
+          startInverse.current = pivot.matrixWorld.clone().invert();
+          startVertexDrag();
+        }}
+        onObjectChange={() => {
+          if (!startInverse.current) return;
+          pivot.updateMatrixWorld();
+          updateVertexDrag(pivot.matrixWorld.clone().multiply(startInverse.current));
+        }}
+        onMouseUp={() => {
+          startInverse.current = null;
+          endVertexDrag();
+        }}
+      />
+    </>
+  );
+};
+
+// How close (in world units) the pointer has to come to an edge to pick it
+const EDGE_PICK_DISTANCE = 0.08;
+
+// Line segments through the given vertex pairs, in the mesh's local space
+const buildEdgeGeometry = (positions: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, edges: Array<[number, number]>) => {
+  const points = new Float32Array(edges.length * 6);
+  edges.forEach(([a, b], i) => {
+    points.set([positions.getX(a), positions.getY(a), positions.getZ(a)], i * 6);
+    points.set([positions.getX(b), positions.getY(b), positions.getZ(b)], i * 6 + 3);
+  });
+  return new THREE.BufferGeometry().setAttribute('position', new THREE.BufferAttribute(points, 3));
+};
+
+// Picks edges within EDGE_PICK_DISTANCE instead of the raycaster's default of
+// a whole unit. Edges lie on the mesh surface, so hits are brought forward by
+// that distance to win over the surface they sit on.
+function raycastEdges(this: THREE.LineSegments, raycaster: THREE.Raycaster, intersects: THREE.Intersection[]) {
+  const threshold = raycaster.params.Line.threshold;
+  raycaster.params.Line.threshold = EDGE_PICK_DISTANCE;
+  const found: THREE.Intersection[] = [];
+  THREE.LineSegments.prototype.raycast.call(this, raycaster, found);
+  raycaster.params.Line.threshold = threshold;
+  found.forEach(hit => intersects.push({ ...hit, distance: hit.distance - EDGE_PICK_DISTANCE }));
+}
+
+// Edge mode draws every welded edge of the mesh as one set of line segments,
+// built once per geometry, with the selected edges drawn over them
+const EdgeLines = ({ geometry, object }: { geometry: THREE.BufferGeometry; object: THREE.Mesh }) => {
   const { 
     editMode, 
     draggedEdge, 
@@ -273,84 +470,47 @@ const EdgeLines = ({ geometry, object }) => {
     isDraggingEdge, 
     setIsDraggingEdge, 
     endEdgeDrag,
+    toggleEdgeSelection,
     selectedElements,
     isObjectLocked
   } = useSceneStore();
   const { camera, raycaster, pointer } = useThree();
   const positions = geometry.attributes.position;
-  const edges = [];
-  const worldMatrix = object.matrixWorld;
   const plane = useRef(new THREE.Plane());
   const intersection = useRef(new THREE.Vector3());
+  const lines = useRef<THREE.LineSegments>(null);
+  const selectedLines = useRef<THREE.LineSegments>(null);
 
   // Check if object is locked
   const selectedObj = useSceneStore.getState().objects.find(obj => obj.object === object);
   const objectLocked = selectedObj ? isObjectLocked(selectedObj.id) : false;
 
-  // Get all edges including vertical ones
-  const indices = geometry.index ? Array.from(geometry.index.array) : null;
-  
-  if (indices) {
-    // For indexed geometry
-    for (let i = 0; i < indices.length; i += 3) {
-      const addEdge = (a: number, b: number) => {
-        const v1 = new THREE.Vector3(
-          positions.getX(indices[a]),
-          positions.getY(indices[a]),
-          positions.getZ(indices[a])
-        ).applyMatrix4(worldMatrix);
-
-        const v2 = new THREE.Vector3(
-          positions.getX(indices[b]),
-          positions.getY(indices[b]),
-          positions.getZ(indices[b])
-        ).applyMatrix4(worldMatrix);
-
-        const midpoint = v1.clone().add(v2).multiplyScalar(0.5);
-
-        edges.push({
-          vertices: [indices[a], indices[b]],
-          positions: [v1, v2],
-          midpoint
-        });
-      };
-
-      // Add all three edges of the triangle
-      addEdge(i, i + 1);
-      addEdge(i + 1, i + 2);
-      addEdge(i + 2, i);
-    }
-  } else {
-    // For non-indexed geometry
-    for (let i = 0; i < positions.count; i += 3) {
-      const addEdge = (a: number, b: number) => {
-        const v1 = new THREE.Vector3(
-          positions.getX(a),
-          positions.getY(a),
-          positions.getZ(a)
-        ).applyMatrix4(worldMatrix);
-
-        const v2 = new THREE.Vector3(
-          positions.getX(b),
-          positions.getY(b),
-          positions.getZ(b)
-        ).applyMatrix4(worldMatrix);
-
-        const midpoint = v1.clone().add(v2).multiplyScalar(0.5);
-
-        edges.push({
-          vertices: [a, b],
-          positions: [v1, v2],
-          midpoint
-        });
-      };
+  // The edges index into the mesh's own positions, so edits show without a
+  // rebuild; only the bounds used for picking have to be refreshed
+  const edges = getWeldedEdges(geometry);
+  const edgeGeometry = useMemo(
+    () => new THREE.BufferGeometry().setAttribute('position', positions).setIndex(edges.flat()),
+    [positions, edges]
+  );
+  useEffect(() => () => edgeGeometry.dispose(), [edgeGeometry]);
+  const version = 'version' in positions ? positions.version : 0;
+  useEffect(() => {
+    edgeGeometry.boundingSphere = null;
+  }, [edgeGeometry, version]);
 
-      // Add all three edges of the triangle
-      addEdge(i, i + 1);
-      addEdge(i + 1, i + 2);
-      addEdge(i + 2, i);
-    }
+  const selectedPairs: Array<[number, number]> = [];
+  for (let i = 0; i + 1 < selectedElements.edges.length; i += 2) {
+    selectedPairs.push([selectedElements.edges[i], selectedElements.edges[i + 1]]);
   }
+  const selectedGeometry = buildEdgeGeometry(positions, selectedPairs);
+  useEffect(() => () => selectedGeometry.dispose(), [selectedGeometry]);
+
+  // The segments are in local space and follow the mesh wherever it moves
+  useFrame(() => {
+    [lines.current, selectedLines.current].forEach(segments => {
+      if (segments) segments.matrix.copy(object.matrixWorld);
+    });
+  });
 
   useEffect(() => {
     if (!isDraggingEdge || !draggedEdge || objectLocked) return;
@@ -363,7 +523,7 @@ const EdgeLines = ({ geometry, object }) => {
 
       raycaster.setFromCamera(pointer, camera);
       if (raycaster.ray.intersectPlane(plane.current, intersection.current)) {
-        useSceneStore.getState().updateEdgeDrag(intersection.current);
+        useSceneStore.getState().updateEdgeDrag(snapPosition(intersection.current, useSceneStore.getState().snapping));
       }
     };
 
@@ -386,76 +546,272 @@ const EdgeLines = ({ geometry, object }) => {
     };
   }, [isDraggingEdge, draggedEdge, camera, raycaster, pointer, setIsDraggingEdge, endEdgeDrag, objectLocked]);
 
-  const handleEdgeClick = (vertices: [number, number], positions: [THREE.Vector3, THREE.Vector3], midpoint: THREE.Vector3) => {
+  const getEdge = (e: ThreeEvent<MouseEvent>) => {
+    const [a, b] = edges[Math.floor((e.index ?? 0) / 2)];
+    const ends: [THREE.Vector3, THREE.Vector3] = [
+      new THREE.Vector3().fromBufferAttribute(positions, a).applyMatrix4(object.matrixWorld),
+      new THREE.Vector3().fromBufferAttribute(positions, b).applyMatrix4(object.matrixWorld)
+    ];
+    return { vertices: [a, b] as [number, number], ends, midpoint: ends[0].clone().lerp(ends[1], 0.5) };
+  };
+
+  const handleEdgeClick = (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
     if (objectLocked) return;
+    const { vertices, ends, midpoint } = getEdge(e);
+    // Shift-click adds or removes edges, e.g. to bevel several at once
+    if (e.shiftKey) {
+      toggleEdgeSelection(vertices);
+      return;
+    }
     // Single click to select and show coordinates
-    startEdgeDrag(vertices, positions, midpoint);
+    startEdgeDrag(vertices, ends, midpoint);
   };
 
-  const handleEdgeDoubleClick = (vertices: [number, number], positions: [THREE.Vector3, THREE.Vector3], midpoint: THREE.Vector3) => {
+  const handleEdgeDoubleClick = (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
     if (objectLocked) return;
     // Double click to start dragging
     if (!isDraggingEdge) {
+      const { vertices, ends, midpoint } = getEdge(e);
       setIsDraggingEdge(true);
-      startEdgeDrag(vertices, positions, midpoint);
+      startEdgeDrag(vertices, ends, midpoint);
     }
   };
 
   return editMode === 'edge' ? (
     <group>
-      {edges.map(({ vertices: [v1, v2], positions: [p1, p2], midpoint }, i) => {
-        const points = [p1, p2];
-        const geometry = new THREE.BufferGeometry().setFromPoints(points);
-        const isSelected = draggedEdge?.indices.some(([a, b]) => 
-          (a === v1 && b === v2) || (a === v2 && b === v1)
-        );
-        
+      <lineSegments
+        ref={lines}
+        geometry={edgeGeometry}
+        matrixAutoUpdate={false}
+        raycast={raycastEdges}
+        onClick={handleEdgeClick}
+        onDoubleClick={handleEdgeDoubleClick}
+      >
+        <lineBasicMaterial
+          color={objectLocked ? 'gray' : 'yellow'}
+          transparent={objectLocked}
+          opacity={objectLocked ? 0.3 : 1}
+        />
+      </lineSegments>
+      <lineSegments ref={selectedLines} geometry={selectedGeometry} matrixAutoUpdate={false} renderOrder={1} raycast={() => null}>
+        <lineBasicMaterial
+          color={objectLocked ? 'gray' : 'red'}
+          transparent={objectLocked}
+          opacity={objectLocked ? 0.3 : 1}
+        />
+      </lineSegments>
+    </group>
+  ) : null;
+};
+
+const FacePolygons = ({ object }: { object: THREE.Mesh }) => {
+  const { editMode, selectedElements, draggedFace, isObjectLocked } = useSceneStore();
+  const { camera, raycaster, pointer } = useThree();
+  const [hoveredFace, setHoveredFace] = useState<number | null>(null);
+
+  // Check if object is locked
+  const selectedObj = useSceneStore.getState().objects.find(obj => obj.object === object);
+  const objectLocked = selectedObj ? isObjectLocked(selectedObj.id) : false;
+
+  useEffect(() => {
+    if (editMode !== 'face' || objectLocked) return;
+
+    const handlePointerMove = () => {
+      raycaster.setFromCamera(pointer, camera);
+      const hit = raycaster.intersectObject(object, false)[0];
+      setHoveredFace(hit?.faceIndex ?? null);
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    return () => window.removeEventListener('pointermove', handlePointerMove);
+  }, [editMode, object, camera, raycaster, pointer, objectLocked]);
+
+  // Selected faces stay highlighted while they are being extruded
+  if (editMode !== 'face' && editMode !== 'extrude') return null;
+
+  const buildHighlight = (faces: number[]) => {
+    const points = faces.flatMap(face => getFaceWorldPositions(object.geometry, face, object.matrixWorld));
+    return new THREE.BufferGeometry().setFromPoints(points);
+  };
+
+  const selectedFaces = selectedElements.faces;
+  const showHover = editMode === 'face' && hoveredFace !== null && !draggedFace && !selectedFaces.includes(hoveredFace);
+
+  return (
+    <group>
+      {selectedFaces.length > 0 && (
+        <mesh geometry={buildHighlight(selectedFaces)} renderOrder={1}>
+          <meshBasicMaterial
+            color={objectLocked ? 'gray' : 'red'}
+            transparent
+            opacity={0.5}
+            side={THREE.DoubleSide}
+            depthWrite={false}
+            polygonOffset
+            polygonOffsetFactor={-1}
+          />
+        </mesh>
+      )}
+      {showHover && (
+        <mesh geometry={buildHighlight(getPolygonFaces(object.geometry, hoveredFace))} renderOrder={1} raycast={() => null}>
+          <meshBasicMaterial
+            color="yellow"
+            transparent
+            opacity={0.35}
+            side={THREE.DoubleSide}
+            depthWrite={false}
+            polygonOffset
+            polygonOffsetFactor={-1}
+          />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
+// Authoring view for the 'curve' and 'nurbs' modes. Clicking the ground or
+// an object places a control point; points can be picked and dragged, and
+// the shape is previewed the way it will be created.
+const NURBSEditor = () => {
+  const { editMode, nurbs, addControlPoint, selectControlPoint, updateControlPoint } = useSceneStore();
+  const { camera, raycaster, pointer } = useThree();
+  const controls = useThree((state) => state.controls) as unknown as { enabled: boolean } | null;
+  const [draggedPoint, setDraggedPoint] = useState<number | null>(null);
+  const plane = useRef(new THREE.Plane());
+  const intersection = useRef(new THREE.Vector3());
+
+  const isAuthoring = editMode === 'curve' || editMode === 'nurbs';
+  const { controlPoints, selectedPoint, degree, columns } = nurbs;
+
+  const surfaceLayout = getSurfaceLayout(controlPoints.length, columns);
+  const positions = controlPoints.map(point => point.position);
+
+  const preview = useMemo(() => {
+    if (editMode === 'curve') {
+      const curve = buildNURBSCurve(controlPoints, degree);
+      return curve ? { curvePoints: curve.getPoints(controlPoints.length * 32) } : null;
+    }
+    if (editMode === 'nurbs') {
+      const surface = buildNURBSSurface(controlPoints, columns, degree);
+      return surface ? { surfaceGeometry: createSurfaceGeometry(surface) } : null;
+    }
+    return null;
+  }, [editMode, controlPoints, columns, degree]);
+
+  useEffect(() => () => preview?.surfaceGeometry?.dispose(), [preview]);
+
+  useEffect(() => {
+    if (draggedPoint === null) return;
+
+    const handlePointerMove = () => {
+      raycaster.setFromCamera(pointer, camera);
+      if (raycaster.ray.intersectPlane(plane.current, intersection.current)) {
+        updateControlPoint(draggedPoint, { position: snapPosition(intersection.current, useSceneStore.getState().snapping) });
+      }
+    };
+    const handlePointerUp = () => setDraggedPoint(null);
+
+    // Keep the camera still while the point is dragged
+    if (controls) controls.enabled = false;
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      if (controls) controls.enabled = true;
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [draggedPoint, camera, raycaster, pointer, controls, updateControlPoint]);
+
+  if (!isAuthoring) return null;
+
+  // Rows and columns of the surface's control net, as line segment pairs
+  const netSegments: THREE.Vector3[] = [];
+  if (editMode === 'nurbs') {
+    const { rows } = surfaceLayout;
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const index = row * columns + column;
+        if (column + 1 < columns) netSegments.push(positions[index], positions[index + 1]);
+        if (row + 1 < rows) netSegments.push(positions[index], positions[index + columns]);
+      }
+    }
+  }
+
+  return (
+    <group>
+      <mesh
+        rotation-x={-Math.PI / 2}
+        onClick={(e: ThreeEvent<MouseEvent>) => {
+          e.stopPropagation();
+          // Ignore clicks that end a camera orbit
+          if (e.delta <= 2) addControlPoint(snapPosition(e.point, useSceneStore.getState().snapping));
+        }}
+      >
+        <planeGeometry args={[1000, 1000]} />
+        <meshBasicMaterial visible={false} />
+      </mesh>
+
+      {editMode === 'curve' && positions.length >= 2 && (
+        <Line points={positions} color="#888888" lineWidth={1} dashed dashSize={0.1} gapSize={0.05} />
+      )}
+      {netSegments.length > 0 && (
+        <Line points={netSegments} segments color="#888888" lineWidth={1} dashed dashSize={0.1} gapSize={0.05} />
+      )}
+      {preview?.curvePoints && (
+        <Line points={preview.curvePoints} color="#44aa88" lineWidth={3} />
+      )}
+      {preview?.surfaceGeometry && (
+        <mesh geometry={preview.surfaceGeometry} raycast={() => null}>
+          <meshStandardMaterial color="#44aa88" side={THREE.DoubleSide} transparent opacity={0.6} />
+        </mesh>
+      )}
+
+      {controlPoints.map(({ position }, index) => {
+        const isSelected = index === selectedPoint;
+        // Points past the last complete row are not part of the surface
+        const isUnused = editMode === 'nurbs' && index >= surfaceLayout.used;
         return (
-          <group key={i}>
-            <line geometry={geometry}>
-              <lineBasicMaterial
-                color={objectLocked ? 'gray' : (isSelected ? 'red' : 'yellow')}
-                linewidth={isSelected ? 3 : 2}
-                transparent={objectLocked}
-                opacity={objectLocked ? 0.3 : 1}
-              />
-            </line>
-            <mesh
-              position={midpoint}
-              onClick={(e) => {
-                e.stopPropagation();
-                handleEdgeClick([v1, v2], [p1, p2], midpoint);
-              }}
-              onDoubleClick={(e) => {
-                e.stopPropagation();
-                handleEdgeDoubleClick([v1, v2], [p1, p2], midpoint);
-              }}
-            >
-              <sphereGeometry args={[0.08]} />
-              <meshBasicMaterial
-                color={objectLocked ? 'gray' : (isSelected ? 'red' : 'yellow')}
-                transparent
-                opacity={objectLocked ? 0.3 : (isSelected ? 0.9 : 0.7)}
-              />
-            </mesh>
-          </group>
+          <mesh
+            key={index}
+            position={position}
+            onClick={(e: ThreeEvent<MouseEvent>) => e.stopPropagation()}
+            onPointerDown={(e: ThreeEvent<PointerEvent>) => {
+              e.stopPropagation();
+              selectControlPoint(index);
+              const cameraDirection = new THREE.Vector3();
+              camera.getWorldDirection(cameraDirection);
+              plane.current.setFromNormalAndCoplanarPoint(cameraDirection, position);
+              setDraggedPoint(index);
+            }}
+          >
+            <sphereGeometry args={[0.1]} />
+            <meshBasicMaterial color={isSelected ? 'red' : isUnused ? 'gray' : 'yellow'} />
+          </mesh>
         );
       })}
     </group>
-  ) : null;
+  );
 };
 
-const EditModeOverlay = () => {
+// Gizmos take the element of the active pane, so they read the pointer
+// relative to it rather than to the whole canvas
+const EditModeOverlay = ({ gizmoElement }: { gizmoElement?: HTMLElement }) => {
   const { 
     selectedObject, 
     editMode,
     setSelectedElements,
-    draggedVertex,
-    updateVertexDrag,
-    endVertexDrag,
+    selectedElements,
+    transformMode,
+    selectionTool,
+    draggedFace,
+    updateFaceDrag,
+    endFaceDrag,
     isObjectLocked
   } = useSceneStore();
   const { scene, camera, raycaster, pointer } = useThree();
+  const controls = useThree((state) => state.controls) as unknown as { enabled: boolean } | null;
   const plane = useRef(new THREE.Plane());
   const intersection = useRef(new THREE.Vector3());
 
@@ -468,25 +824,30 @@ const EditModeOverlay = () => {
     if (objectLocked) return;
 
     const handlePointerMove = (event) => {
-      if (draggedVertex) {
+      if (draggedFace) {
         const cameraDirection = new THREE.Vector3();
         camera.getWorldDirection(cameraDirection);
-        plane.current.normal.copy(cameraDirection);
-        plane.current.setFromNormalAndCoplanarPoint(
-          cameraDirection,
-          draggedVertex.position
-        );
+
+        // When moving along the normal, drag on a plane that contains the
+        // normal and faces the camera as much as possible
+        const planeNormal = cameraDirection.clone();
+        if (useSceneStore.getState().faceDragMode === 'normal') {
+          planeNormal.addScaledVector(draggedFace.normal, -cameraDirection.dot(draggedFace.normal));
+          if (planeNormal.lengthSq() < 1e-6) planeNormal.copy(cameraDirection);
+          planeNormal.normalize();
+        }
+        plane.current.setFromNormalAndCoplanarPoint(planeNormal, draggedFace.origin);
 
         raycaster.setFromCamera(pointer, camera);
         if (raycaster.ray.intersectPlane(plane.current, intersection.current)) {
-          updateVertexDrag(intersection.current);
+          updateFaceDrag(intersection.current);
         }
       }
     };
 
     const handlePointerUp = () => {
-      if (draggedVertex) {
-        endVertexDrag();
+      if (draggedFace) {
+        endFaceDrag();
       }
     };
 
@@ -504,134 +865,280 @@ const EditModeOverlay = () => {
     raycaster,
     pointer,
     setSelectedElements,
-    draggedVertex,
-    updateVertexDrag,
-    endVertexDrag,
+    draggedFace,
+    updateFaceDrag,
+    endFaceDrag,
     isObjectLocked
   ]);
 
+  // Keep the camera still while faces are being dragged
+  useEffect(() => {
+    if (!controls || !draggedFace) return;
+    controls.enabled = false;
+    return () => {
+      controls.enabled = true;
+    };
+  }, [controls, draggedFace]);
+
   if (!selectedObject || !editMode || !(selectedObject instanceof THREE.Mesh)) return null;
 
+  const selectedObj = useSceneStore.getState().objects.find(obj => obj.object === selectedObject);
+  const objectLocked = selectedObj ? isObjectLocked(selectedObj.id) : false;
+
   return (
     <>
       <VertexPoints geometry={selectedObject.geometry} object={selectedObject} />
+      {/* While a selection tool is active, drags draw regions instead */}
+      {editMode === 'vertex' && selectedElements.vertices.length > 0 && !objectLocked && !selectionTool && (
+        <VertexTransformControls object={selectedObject} mode={transformMode ?? 'translate'} domElement={gizmoElement} />
+      )}
       <EdgeLines geometry={selectedObject.geometry} object={selectedObject} />
+      <FacePolygons object={selectedObject} />
     </>
   );
 };
 
-// Camera controller component
-const CameraController = () => {
-  const { camera } = useThree();
-  const { cameraPerspective } = useSceneStore();
-  const controlsRef = useRef();
-
-  useEffect(() => {
-    if (!camera || !controlsRef.current) return;
-
-    const controls = controlsRef.current;
-    const distance = 10; // Distance from origin
-
-    switch (cameraPerspective) {
-      case 'front':
-        camera.position.set(0, 0, distance);
-        camera.lookAt(0, 0, 0);
-        camera.up.set(0, 1, 0);
-        break;
-      case 'back':
-        camera.position.set(0, 0, -distance);
-        camera.lookAt(0, 0, 0);
-        camera.up.set(0, 1, 0);
-        break;
-      case 'right':
-        camera.position.set(distance, 0, 0);
-        camera.lookAt(0, 0, 0);
-        camera.up.set(0, 1, 0);
-        break;
-      case 'left':
-        camera.position.set(-distance, 0, 0);
-        camera.lookAt(0, 0, 0);
-        camera.up.set(0, 1, 0);
-        break;
-      case 'top':
-        camera.position.set(0, distance, 0);
-        camera.lookAt(0, 0, 0);
-        camera.up.set(0, 0, -1);
-        break;
-      case 'bottom':
-        camera.position.set(0, -distance, 0);
-        camera.lookAt(0, 0, 0);
-        camera.up.set(0, 0, 1);
-        break;
-      case 'perspective':
-      default:
-        camera.position.set(5, 5, 5);
-        camera.lookAt(0, 0, 0);
-        camera.up.set(0, 1, 0);
-        break;
+const pointInPolygon = (point: THREE.Vector2, polygon: THREE.Vector2[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
     }
+  }
+  return inside;
+};
 
-    // Update controls target and position
-    if (controls.target) {
-      controls.target.set(0, 0, 0);
-    }
-    controls.update();
-  }, [cameraPerspective, camera]);
+// Regions smaller than this (in pixels) are treated as clicks
+const MIN_REGION_SIZE = 4;
+
+// Selects objects by dragging a rectangle or a freehand lasso over the canvas.
+// An object is picked when the centre of its bounds falls inside the region;
+// in vertex mode the vertices of the edited mesh are picked instead.
+const RegionSelector = ({ onRegionChange }: { onRegionChange: (region: THREE.Vector2[] | null) => void }) => {
+  const { selectionTool } = useSceneStore();
+  const { gl, events, get } = useThree();
+  const controls = useThree((state) => state.controls) as unknown as { enabled: boolean } | null;
 
-  // Handle keyboard shortcuts
   useEffect(() => {
-    const handleKeyDown = (event) => {
-      // Only handle numpad keys when not typing in inputs
-      if (event.target.tagName === 'INPUT' || event.target.tagName === 'TEXTAREA') return;
-
-      const { setCameraPerspective } = useSceneStore.getState();
-
-      switch (event.code) {
-        case 'Numpad0':
-          setCameraPerspective('perspective');
-          break;
-        case 'Numpad1':
-          if (event.ctrlKey) {
-            setCameraPerspective('back');
-          } else {
-            setCameraPerspective('front');
-          }
-          break;
-        case 'Numpad3':
-          if (event.ctrlKey) {
-            setCameraPerspective('left');
-          } else {
-            setCameraPerspective('right');
-          }
-          break;
-        case 'Numpad7':
-          if (event.ctrlKey) {
-            setCameraPerspective('bottom');
-          } else {
-            setCameraPerspective('top');
-          }
-          break;
+    if (!selectionTool) return;
+
+    const canvas = gl.domElement;
+    // Presses land on the element events come from, which covers the panes
+    const source = (events.connected as HTMLElement | undefined) ?? canvas;
+    let points: THREE.Vector2[] = [];
+    let dragging = false;
+
+    const toCanvas = (event: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      return new THREE.Vector2(event.clientX - rect.left, event.clientY - rect.top);
+    };
+
+    const getRegion = () => {
+      if (selectionTool === 'lasso') return points;
+      const [start, end] = [points[0], points[points.length - 1]];
+      return [start, new THREE.Vector2(end.x, start.y), end, new THREE.Vector2(start.x, end.y)];
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button !== 0) return;
+      // Left drags select; the other buttons still orbit and pan
+      if (controls) controls.enabled = false;
+      dragging = true;
+      points = [toCanvas(event)];
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!dragging) return;
+      const point = toCanvas(event);
+      if (selectionTool === 'box') {
+        points = [points[0], point];
+      } else if (point.distanceTo(points[points.length - 1]) > 2) {
+        points = [...points, point];
       }
+      onRegionChange(getRegion());
     };
 
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, []);
+    const handlePointerUp = (event: PointerEvent) => {
+      if (!dragging) return;
+      dragging = false;
+      if (controls) controls.enabled = true;
+      onRegionChange(null);
+
+      const region = getRegion();
+      const bounds = new THREE.Box2().setFromPoints(region);
+      const size = bounds.getSize(new THREE.Vector2());
+      if (Math.max(size.x, size.y) < MIN_REGION_SIZE) return;
+
+      // Project through the pane the drag started in
+      const { camera, size: canvasSize } = get();
+      const layout = useSceneStore.getState();
+      const rect = getViewportRect(getActiveViewport(layout), layout, canvasSize);
+      const toScreen = (point: THREE.Vector3) => {
+        point.project(camera);
+        // Skip points behind the camera
+        if (point.z < -1 || point.z > 1) return null;
+        return new THREE.Vector2(
+          rect.left + ((point.x + 1) / 2) * rect.width,
+          rect.top + ((1 - point.y) / 2) * rect.height
+        );
+      };
+      const isInside = (point: THREE.Vector3) => {
+        const screen = toScreen(point);
+        return screen !== null && pointInPolygon(screen, region);
+      };
+      const additive = event.shiftKey || event.ctrlKey || event.metaKey;
+
+      // In vertex mode the region picks vertices of the edited mesh
+      const { editMode, selectedObject } = useSceneStore.getState();
+      if (editMode === 'vertex' && selectedObject instanceof THREE.Mesh) {
+        const positions = selectedObject.geometry.attributes.position;
+        const vertex = new THREE.Vector3();
+        const indices: number[] = [];
+        for (let i = 0; i < positions.count; i++) {
+          vertex.fromBufferAttribute(positions, i).applyMatrix4(selectedObject.matrixWorld);
+          if (isInside(vertex)) indices.push(i);
+        }
+        useSceneStore.getState().selectVertices(indices, additive);
+        return;
+      }
+
+      const center = new THREE.Vector3();
+      const { objects, groups } = useSceneStore.getState();
+      const hits = objects
+        .filter(({ id }) => isNodeShown({ objects, groups }, id))
+        .map(({ object }) => object)
+        .filter(object => {
+          const box = new THREE.Box3().setFromObject(object);
+          return !box.isEmpty() && isInside(box.getCenter(center));
+        });
+
+      useSceneStore.getState().setSelection(hits, additive);
+    };
+
+    // Capture runs before OrbitControls sees the press, so it can be disabled in time
+    source.addEventListener('pointerdown', handlePointerDown, { capture: true });
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    source.style.cursor = 'crosshair';
+
+    return () => {
+      source.removeEventListener('pointerdown', handlePointerDown, { capture: true });
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      source.style.cursor = '';
+      if (controls) controls.enabled = true;
+      onRegionChange(null);
+    };
+  }, [selectionTool, gl, events, get, controls, onRegionChange]);
+
+  return null;
+};
+
+// Moves, rotates or scales every selected object together around the
+// centre of their combined bounds
+const SelectionTransformControls = ({ mode, domElement }: { mode: 'translate' | 'rotate' | 'scale'; domElement?: HTMLElement }) => {
+  const { selectedObjects, snapping } = useSceneStore();
+  const pivot = useMemo(() => new THREE.Object3D(), []);
+  // A selected child moves with its selected parent, not on its own as well
+  const movedObjects = withoutDescendants(selectedObjects);
+  const dragStart = useRef<{ pivot: THREE.Matrix4; matrices: THREE.Matrix4[] } | null>(null);
+
+  useFrame(() => {
+    if (dragStart.current) return;
+    const bounds = new THREE.Box3();
+    selectedObjects.forEach(object => bounds.expandByObject(object));
+    if (bounds.isEmpty()) return;
+    bounds.getCenter(pivot.position);
+    pivot.quaternion.identity();
+    pivot.scale.set(1, 1, 1);
+    pivot.updateMatrixWorld();
+  });
+
+  const handleMouseDown = () => {
+    useSceneStore.getState().beginHistoryStep('Transform Objects');
+    pivot.updateMatrixWorld();
+    dragStart.current = {
+      pivot: pivot.matrixWorld.clone().invert(),
+      matrices: movedObjects.map(object => {
+        object.updateWorldMatrix(true, false);
+        return object.matrixWorld.clone();
+      })
+    };
+  };
+
+  const handleObjectChange = () => {
+    const start = dragStart.current;
+    if (!start) return;
+    pivot.updateMatrixWorld();
+    const delta = pivot.matrixWorld.clone().multiply(start.pivot);
+    const parentInverse = new THREE.Matrix4();
+    movedObjects.forEach((object, index) => {
+      const matrix = delta.clone().multiply(start.matrices[index]);
+      if (object.parent) {
+        parentInverse.copy(object.parent.matrixWorld).invert();
+        matrix.premultiply(parentInverse);
+      }
+      matrix.decompose(object.position, object.quaternion, object.scale);
+    });
+  };
+
+  const handleMouseUp = () => {
+    dragStart.current = null;
+    useSceneStore.getState().commitHistoryStep();
+  };
 
   return (
-    <OrbitControls
-      ref={controlsRef}
-      makeDefault
-      enablePan={true}
-      enableZoom={true}
-      enableRotate={true}
-    />
+    <>
+      <primitive object={pivot} />
+      <TransformControls
+        object={pivot}
+        mode={mode}
+        domElement={domElement}
+        {...getGizmoSnaps(snapping)}
+        onMouseDown={handleMouseDown}
+        onObjectChange={handleObjectChange}
+        onMouseUp={handleMouseUp}
+      />
+    </>
+  );
+};
+
+// Outlines each selected object while more than one is selected; the active
+// object is drawn in orange
+const SelectionHighlights = () => {
+  const { selectedObjects, selectedObject, editMode } = useSceneStore();
+  const helpers = useMemo(
+    () => selectedObjects.map(object => new THREE.BoxHelper(object, object === selectedObject ? 0xffa500 : 0x3b82f6)),
+    [selectedObjects, selectedObject]
+  );
+
+  useEffect(() => () => {
+    helpers.forEach(helper => {
+      helper.geometry.dispose();
+      (helper.material as THREE.Material).dispose();
+    });
+  }, [helpers]);
+
+  useFrame(() => helpers.forEach(helper => helper.update()));
+
+  if (editMode || helpers.length < 2) return null;
+
+  return (
+    <>
+      {helpers.map(helper => (
+        <primitive key={helper.uuid} object={helper} raycast={() => null} />
+      ))}
+    </>
   );
 };
 
 const Scene: React.FC = () => {
   const { 
     objects, 
+    groups,
     selectedObject, 
     setSelectedObject, 
     transformMode, 
@@ -639,35 +1146,79 @@ const Scene: React.FC = () => {
     draggedVertex, 
     draggedEdge,
     selectedElements, 
+    startVertexDrag,
     updateVertexDrag,
+    endVertexDrag,
     updateEdgeDrag,
-    canSelectObject
+    commitEdgeMove,
+    draggedFace,
+    selectFace,
+    startFaceDrag,
+    updateFaceDrag,
+    endFaceDrag,
+    addControlPoint,
+    canSelectObject,
+    selectedObjects,
+    selectionTool,
+    toggleObjectSelection,
+    snapping,
+    setSnapping,
+    viewportLayout,
+    maximizedViewport,
+    activeViewport
   } = useSceneStore();
-  const [selectedPosition, setSelectedPosition] = useState<THREE.Vector3 | null>(null);
+  // Canvas events come from this element, so they also reach it through the panes
+  const viewportRef = useRef<HTMLDivElement>(null!);
+  const [paneElements, setPaneElements] = useState<Partial<Record<ViewportPane, HTMLElement>>>({});
   const [selectedEdgePosition, setSelectedEdgePosition] = useState<THREE.Vector3 | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [selectionRegion, setSelectionRegion] = useState<THREE.Vector2[] | null>(null);
 
+  // Holding Ctrl flips snapping while it is held
   useEffect(() => {
-    if (editMode === 'vertex' && selectedObject instanceof THREE.Mesh) {
-      if (draggedVertex) {
-        setSelectedPosition(draggedVertex.position);
-      } else if (selectedElements.vertices.length > 0) {
-        const geometry = selectedObject.geometry;
-        const positions = geometry.attributes.position;
-        const vertexIndex = selectedElements.vertices[0];
-        const position = new THREE.Vector3(
-          positions.getX(vertexIndex),
-          positions.getY(vertexIndex),
-          positions.getZ(vertexIndex)
-        );
-        position.applyMatrix4(selectedObject.matrixWorld);
-        setSelectedPosition(position);
-      } else {
-        setSelectedPosition(null);
+    const handleKey = (event: KeyboardEvent) => {
+      const override = event.type === 'keydown';
+      // Ignore key repeat while Ctrl is held
+      if (event.key === 'Control' && useSceneStore.getState().snapping.override !== override) {
+        setSnapping({ override });
       }
-    } else {
-      setSelectedPosition(null);
-    }
-  }, [editMode, selectedObject, draggedVertex, selectedElements.vertices]);
+    };
+    const handleBlur = () => setSnapping({ override: false });
+
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [setSnapping]);
+
+  const handlePaneElement = useCallback((pane: ViewportPane, element: HTMLDivElement | null) => {
+    setPaneElements(elements => {
+      if (elements[pane] === (element ?? undefined)) return elements;
+      return { ...elements, [pane]: element ?? undefined };
+    });
+  }, []);
+
+  // In the quad layout gizmos and orbit controls listen on their pane
+  const quadLayout = viewportLayout === 'quad';
+  const gizmoElement = quadLayout
+    ? paneElements[getActiveViewport({ viewportLayout, maximizedViewport, activeViewport })]
+    : undefined;
+
+  let selectedVertexPosition: THREE.Vector3 | null = null;
+  let selectedVertexCount = 0;
+  if (editMode === 'vertex' && selectedObject instanceof THREE.Mesh && selectedElements.vertices.length > 0) {
+    const geometry = selectedObject.geometry;
+    selectedVertexPosition = draggedVertex
+      ? draggedVertex.position
+      : getVerticesCenter(geometry, selectedElements.vertices).applyMatrix4(selectedObject.matrixWorld);
+    selectedVertexCount = new Set(
+      selectedElements.vertices.map(index => weldKey(geometry.attributes.position, index))
+    ).size;
+  }
 
   useEffect(() => {
     if (editMode === 'edge' && selectedObject instanceof THREE.Mesh) {
@@ -681,18 +1232,32 @@ const Scene: React.FC = () => {
     }
   }, [editMode, selectedObject, draggedEdge]);
 
+  let selectedFacePosition: THREE.Vector3 | null = null;
+  let selectedFaceCount = 0;
+  if (editMode === 'face' && selectedObject instanceof THREE.Mesh && selectedElements.faces.length > 0) {
+    selectedFaceCount = countPolygons(selectedObject.geometry, selectedElements.faces);
+    selectedFacePosition = draggedFace
+      ? draggedFace.position
+      : getFacesCenter(selectedObject.geometry, selectedElements.faces).applyMatrix4(selectedObject.matrixWorld);
+  }
+
+  const handleFacePositionChange = (newPosition: THREE.Vector3) => {
+    if (!useSceneStore.getState().draggedFace) {
+      startFaceDrag();
+    }
+    // Typed coordinates are exact, so they are not constrained to the normal
+    updateFaceDrag(newPosition, true);
+  };
+
   const handleVertexPositionChange = (newPosition: THREE.Vector3) => {
-    if (selectedObject instanceof THREE.Mesh && draggedVertex) {
-      // Convert world position back to local position
-      const localPosition = newPosition.clone();
-      const inverseMatrix = selectedObject.matrixWorld.clone().invert();
-      localPosition.applyMatrix4(inverseMatrix);
-      
-      updateVertexDrag(localPosition);
-      
-      // Update the displayed position to match the world position
-      setSelectedPosition(newPosition);
+    if (!useSceneStore.getState().draggedVertex) {
+      startVertexDrag();
     }
+    const drag = useSceneStore.getState().draggedVertex;
+    if (!drag) return;
+    // Typed coordinates move the centroid, and every vertex with it
+    const offset = newPosition.clone().sub(drag.origin);
+    updateVertexDrag(new THREE.Matrix4().makeTranslation(offset.x, offset.y, offset.z));
   };
 
   const handleEdgePositionChange = (newPosition: THREE.Vector3) => {
@@ -702,63 +1267,178 @@ const Scene: React.FC = () => {
     }
   };
 
-  return (
-    <div className="relative w-full h-full">
-      <Canvas
-        camera={{ position: [5, 5, 5], fov: 75 }}
-        className="w-full h-full bg-gray-900"
-        onContextMenu={(e) => e.preventDefault()} // Prevent default right-click menu
-      >
-        <ambientLight intensity={0.5} />
-        <directionalLight position={[10, 10, 5]} intensity={1} />
-        
-        <Grid
-          infiniteGrid
-          cellSize={1}
-          sectionSize={3}
-          fadeDistance={30}
-          fadeStrength={1}
-        />
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFile(true);
+  };
 
-        {objects.map(({ object, visible, id }) => (
-          visible && (
-            <primitive
-              key={id}
-              object={object}
-              onClick={(e) => {
-                e.stopPropagation();
-                if (canSelectObject(object)) {
-                  setSelectedObject(object);
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const files = Array.from(e.dataTransfer.files).filter(isImportableFile);
+    if (files.length > 0) {
+      importModelFiles(files);
+    }
+  };
+
+  const hasLights = objects.some(({ id, object }) =>
+    object instanceof THREE.Light && isNodeShown({ objects, groups }, id));
+
+  // Groups and objects are nested as they are in the hierarchy, so moving a
+  // parent moves everything under it. A hidden node hides what it holds.
+  const renderNodes = (parentId: string | undefined): React.ReactNode => {
+    const children = getChildNodes({ objects, groups }, parentId);
+    return (
+      <>
+        {children.groups.map(group => group.visible && (
+          <primitive key={group.id} object={group.object}>
+            {renderNodes(group.id)}
+          </primitive>
+        ))}
+        {children.objects.map(({ object, visible, id }) => visible && (
+          <primitive
+            key={id}
+            object={object}
+            {...(object instanceof THREE.Mesh && { castShadow: true, receiveShadow: true })}
+            {...(object instanceof THREE.Light && { raycast: raycastLight })}
+            onClick={(e: ThreeEvent<MouseEvent>) => {
+              e.stopPropagation();
+              // While authoring NURBS, objects are surfaces to place points on
+              if (editMode === 'curve' || editMode === 'nurbs') {
+                if (e.delta <= 2) addControlPoint(e.point);
+                return;
+              }
+              if (editMode === 'face' && object === selectedObject) {
+                // Ignore the click that ends a face drag
+                if (e.delta <= 2 && e.faceIndex !== undefined) {
+                  selectFace(e.faceIndex, e.shiftKey);
                 }
-              }}
-            />
-          )
+                return;
+              }
+              if (e.shiftKey || e.ctrlKey || e.metaKey) {
+                if (e.delta <= 2) toggleObjectSelection(object);
+                return;
+              }
+              // The drag drew a selection region, it didn't pick this object
+              if (selectionTool && e.delta > 2) return;
+              if (canSelectObject(object)) {
+                setSelectedObject(object);
+              }
+            }}
+            onPointerDown={(e: ThreeEvent<PointerEvent>) => {
+              // Pressing on an already selected face starts dragging the selection
+              if (editMode === 'face' && object === selectedObject && !e.shiftKey &&
+                  e.faceIndex !== undefined && selectedElements.faces.includes(e.faceIndex)) {
+                e.stopPropagation();
+                startFaceDrag();
+              }
+            }}
+          >
+            {renderNodes(id)}
+          </primitive>
         ))}
+      </>
+    );
+  };
 
-        {selectedObject && transformMode && canSelectObject(selectedObject) && (
-          <TransformControls
-            object={selectedObject}
-            mode={transformMode}
+  return (
+    <div
+      className="relative w-full h-full"
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false);
+      }}
+      onDrop={handleDrop}
+    >
+      <div
+        ref={viewportRef}
+        className="absolute inset-0"
+        onContextMenu={(e) => e.preventDefault()} // Prevent default right-click menu
+      >
+        <Canvas
+          className="w-full h-full bg-gray-900"
+          eventSource={viewportRef}
+          events={createViewportEvents}
+          shadows
+        >
+          <ambientLight intensity={0.5} />
+          {/* Default lighting until the scene has lights of its own */}
+          {!hasLights && <directionalLight position={[10, 10, 5]} intensity={1} />}
+          
+          <Grid
+            infiniteGrid
+            cellSize={GRID_CELL_SIZE}
+            sectionSize={GRID_CELL_SIZE * 3}
+            fadeDistance={30}
+            fadeStrength={1}
           />
-        )}
-
-        <EditModeOverlay />
-        <CameraController />
-      </Canvas>
-      {editMode === 'vertex' && selectedPosition && (
-        <VertexCoordinates 
-          position={selectedPosition}
+
+          {renderNodes(undefined)}
+
+          {!editMode && selectedObjects.length <= 1 && selectedObject && transformMode && canSelectObject(selectedObject) && (
+            <TransformControls
+              object={selectedObject}
+              mode={transformMode}
+              domElement={gizmoElement}
+              {...getGizmoSnaps(snapping)}
+              onMouseDown={() => useSceneStore.getState().beginHistoryStep('Transform Object')}
+              onMouseUp={() => useSceneStore.getState().commitHistoryStep()}
+            />
+          )}
+
+          {!editMode && selectedObjects.length > 1 && transformMode && (
+            <SelectionTransformControls mode={transformMode} domElement={gizmoElement} />
+          )}
+
+          <SelectionHighlights />
+          <LightHelpers />
+          <RegionSelector onRegionChange={setSelectionRegion} />
+          <EditModeOverlay gizmoElement={gizmoElement} />
+          <NURBSEditor />
+          <CameraController domElement={quadLayout ? paneElements.perspective : undefined} />
+          <ViewportPanes elements={paneElements} />
+        </Canvas>
+        {quadLayout && <ViewportFrames onPaneElement={handlePaneElement} />}
+      </div>
+      {editMode === 'vertex' && selectedVertexPosition && (
+        <VertexCoordinates
+          position={selectedVertexPosition}
+          vertexCount={selectedVertexCount}
           onPositionChange={handleVertexPositionChange}
+          onCommit={() => useSceneStore.getState().draggedVertex && endVertexDrag()}
         />
       )}
       {editMode === 'edge' && selectedEdgePosition && (
         <EdgeCoordinates 
           position={selectedEdgePosition}
           onPositionChange={handleEdgePositionChange}
+          onCommit={commitEdgeMove}
         />
       )}
-      {editMode === 'vertex' && selectedObject && !(selectedObject.geometry instanceof THREE.ConeGeometry) && (
-        <VertexCountSelector />
+      {editMode === 'face' && selectedFacePosition && (
+        <FaceCoordinates
+          position={selectedFacePosition}
+          faceCount={selectedFaceCount}
+          onPositionChange={handleFacePositionChange}
+          onCommit={() => useSceneStore.getState().draggedFace && endFaceDrag()}
+        />
+      )}
+      {selectionRegion && (
+        <svg className="absolute inset-0 w-full h-full pointer-events-none">
+          <polygon
+            points={selectionRegion.map(({ x, y }) => `${x},${y}`).join(' ')}
+            className="fill-blue-500/10 stroke-blue-400"
+            strokeWidth={1}
+            strokeDasharray="4 3"
+          />
+        </svg>
+      )}
+      {isDraggingFile && (
+        <div className="absolute inset-0 flex items-center justify-center bg-blue-500/10 border-2 border-dashed border-blue-400/60 pointer-events-none">
+          <p className="text-blue-300 text-lg font-medium">Drop OBJ, STL or glTF files to import</p>
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,73 @@
+import React from 'react';
+import * as THREE from 'three';
+import { useSceneStore } from '../store/sceneStore';
+import { PRIMITIVE_DEFINITIONS, getGeometryParameters, isPrimitiveGeometry } from '../store/geometries';
+import { NumberField } from './PropertyFields';
+
+// The shape section of the properties panel: the parameters the active
+// primitive was built from. Edits rebuild every selected object of the same
+// shape.
+const ShapeEditor: React.FC<{ mesh: THREE.Mesh; locked: boolean }> = ({ mesh, locked }) => {
+  const { updateGeometryParameters } = useSceneStore();
+  const definition = PRIMITIVE_DEFINITIONS[mesh.geometry.type];
+  if (!definition || !isPrimitiveGeometry(mesh.geometry)) return null;
+
+  const parameters = getGeometryParameters(mesh.geometry);
+  const update = (key: string, value: number | boolean) => {
+    if (!locked) updateGeometryParameters({ [key]: value });
+  };
+
+  const numberFields = definition.fields.filter(field => field.kind !== 'boolean');
+  const toggles = definition.fields.filter(field => field.kind === 'boolean');
+
+  return (
+    <div className="space-y-4 border-t border-white/10 pt-4">
+      <h3 className="font-medium text-white/70 text-sm">{definition.label}</h3>
+
+      <div className="grid grid-cols-2 gap-2">
+        {numberFields.map(({ key, label, kind, min, max }) => {
+          const value = parameters[key] as number;
+          return kind === 'angle' ? (
+            <NumberField
+              key={key}
+              label={`${label} (°)`}
+              value={Math.round(THREE.MathUtils.radToDeg(value) * 100) / 100}
+              step={15}
+              min={0}
+              max={360}
+              locked={locked}
+              onChange={(degrees) => update(key, THREE.MathUtils.degToRad(degrees))}
+            />
+          ) : (
+            <NumberField
+              key={key}
+              label={label}
+              value={value}
+              step={kind === 'integer' ? 1 : 0.1}
+              min={min}
+              max={max}
+              locked={locked}
+              onChange={(next) => update(key, next)}
+            />
+          );
+        })}
+      </div>
+
+      {toggles.map(({ key, label }) => (
+        <label key={key} className="flex items-center gap-2 text-sm text-white/70 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={parameters[key] as boolean}
+            onChange={(e) => update(key, e.target.checked)}
+            disabled={locked}
+          />
+          {label}
+        </label>
+      ))}
+
+      <p className="text-xs text-white/50">Changing the shape discards vertex edits</p>
+    </div>
+  );
+};
+
+export default ShapeEditor;
@@ -1,6 +1,13 @@
-import React from 'react';
-import { Cuboid, Cherry, Cylinder, Cone, Pyramid, Move, RotateCw, Maximize, Projector as Vector, Link } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Cuboid, Cherry, Cylinder, Cone, Pyramid, Diamond, Pentagon, Gem, Globe, Pill, Torus, Infinity as InfinityIcon, Square, Grid2x2, Circle, Disc, Move, RotateCw, Maximize, Projector as Vector, Link, Triangle, ArrowUpFromLine, Squircle, Spline, Grid3x3, BoxSelect, Lasso, Magnet, Crosshair, LayoutGrid, Keyboard, Save, FolderOpen, Download, Upload, Lightbulb, Flashlight, Sun, CloudSun, RectangleHorizontal } from 'lucide-react';
 import { useSceneStore } from '../store/sceneStore';
+import { serializeScene, deserializeScene } from '../store/sceneFile';
+import { downloadFile } from '../utils/files';
+import { exportGLTF } from '../utils/gltfExport';
+import { IMPORT_EXTENSIONS, RESOURCE_EXTENSIONS, importModelFiles } from '../utils/modelImport';
+import { GRID_CELL_SIZE } from '../store/snapping';
+import { type KeyCombo, formatKeyCombo, registerShortcutHandlers, withShortcut } from '../store/keymap';
+import { LIGHT_LABELS, createLight } from '../store/lights';
 import * as THREE from 'three';
 
 const Toolbar: React.FC = () => {
@@ -10,16 +17,57 @@ const Toolbar: React.FC = () => {
     transformMode, 
     setEditMode,
     editMode,
-    selectedObject
+    selectedObject,
+    selectedObjects,
+    selectedElements,
+    selectionTool,
+    setSelectionTool,
+    snapping,
+    setSnapping,
+    viewportLayout,
+    setViewportLayout,
+    keyBindings,
+    setKeymapEditorOpen
   } = useSceneStore();
+  const sceneFileInput = useRef<HTMLInputElement>(null);
+  const modelFileInput = useRef<HTMLInputElement>(null);
+  const [exportSelectionOnly, setExportSelectionOnly] = useState(false);
 
-  const createObject = (geometry: THREE.BufferGeometry, name: string) => {
-    const material = new THREE.MeshStandardMaterial({ color: 0x44aa88 });
+  // Flat shapes are laid on the ground and drawn from both sides
+  const createObject = (geometry: THREE.BufferGeometry, name: string, flat = false) => {
+    const material = new THREE.MeshStandardMaterial({ color: 0x44aa88, side: flat ? THREE.DoubleSide : THREE.FrontSide });
     const mesh = new THREE.Mesh(geometry, material);
     mesh.position.set(0, 0, 0);
+    if (flat) mesh.rotation.x = -Math.PI / 2;
     addObject(mesh, name);
   };
 
+  const saveScene = () => {
+    const { objects, groups, cameraBookmarks, materialLibrary } = useSceneStore.getState();
+    const file = serializeScene(objects, groups, cameraBookmarks, materialLibrary);
+    downloadFile(JSON.stringify(file, null, 2), 'scene.json', 'application/json');
+  };
+
+  const openScene = async (file: File) => {
+    try {
+      const scene = deserializeScene(JSON.parse(await file.text()));
+      useSceneStore.getState().loadScene(scene);
+    } catch (error) {
+      window.alert(`Could not open ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const exportScene = async (binary: boolean) => {
+    const { objects, groups } = useSceneStore.getState();
+    const selection = exportSelectionOnly && selectedObjects.length > 0 ? selectedObjects : undefined;
+    try {
+      const file = await exportGLTF(objects, groups, { binary, selection });
+      downloadFile(file, binary ? 'scene.glb' : 'scene.gltf', file.type);
+    } catch (error) {
+      window.alert(`Export failed: ${(error as Error).message}`);
+    }
+  };
+
   const transformTools = [
     {
       icon: Move,
@@ -41,6 +89,53 @@ const Toolbar: React.FC = () => {
     },
   ] as const;
 
+  const chooseTransformTool = (mode: typeof transformTools[number]['mode']) => {
+    setTransformMode(mode);
+    // In vertex mode the tools pick the gizmo for the selected vertices
+    if (editMode !== 'vertex') setEditMode(null);
+    setSelectionTool(null);
+  };
+
+  const shapeTools = [
+    { icon: Cuboid, name: 'Cube', create: () => new THREE.BoxGeometry() },
+    { icon: Cherry, name: 'Sphere', create: () => new THREE.SphereGeometry(0.5, 32, 16) },
+    { icon: Cylinder, name: 'Cylinder', create: () => new THREE.CylinderGeometry(0.5, 0.5, 1, 32) },
+    { icon: Cone, name: 'Cone', create: () => new THREE.ConeGeometry(0.5, 1, 32) },
+    { icon: Pyramid, name: 'Tetrahedron', create: () => new THREE.TetrahedronGeometry(0.5) },
+    { icon: Diamond, name: 'Octahedron', create: () => new THREE.OctahedronGeometry(0.5) },
+    { icon: Pentagon, name: 'Dodecahedron', create: () => new THREE.DodecahedronGeometry(0.5) },
+    { icon: Gem, name: 'Icosahedron', create: () => new THREE.IcosahedronGeometry(0.5) },
+    { icon: Globe, name: 'Icosphere', create: () => new THREE.IcosahedronGeometry(0.5, 2) },
+    { icon: Pill, name: 'Capsule', create: () => new THREE.CapsuleGeometry(0.25, 0.5, 8, 16) },
+    { icon: Torus, name: 'Torus', create: () => new THREE.TorusGeometry(0.4, 0.15, 12, 32) },
+    { icon: InfinityIcon, name: 'Torus Knot', create: () => new THREE.TorusKnotGeometry(0.4, 0.1, 64, 8) },
+    { icon: Square, name: 'Plane', create: () => new THREE.PlaneGeometry(), flat: true },
+    { icon: Grid2x2, name: 'Grid', create: () => new THREE.PlaneGeometry(2, 2, 10, 10), flat: true },
+    { icon: Circle, name: 'Circle', create: () => new THREE.CircleGeometry(0.5, 32), flat: true },
+    { icon: Disc, name: 'Ring', create: () => new THREE.RingGeometry(0.25, 0.5, 32), flat: true },
+  ];
+
+  const lightTools = [
+    { icon: Lightbulb, type: 'point', title: 'Point' },
+    { icon: Flashlight, type: 'spot', title: 'Spot' },
+    { icon: Sun, type: 'directional', title: 'Directional' },
+    { icon: CloudSun, type: 'hemisphere', title: 'Hemisphere' },
+    { icon: RectangleHorizontal, type: 'area', title: 'Area' },
+  ] as const;
+
+  const selectionTools = [
+    {
+      icon: BoxSelect,
+      tool: 'box',
+      title: 'Box Select'
+    },
+    {
+      icon: Lasso,
+      tool: 'lasso',
+      title: 'Lasso Select'
+    },
+  ] as const;
+
   // Check if edge editing should be disabled for the current object
   const isEdgeEditingDisabled = () => {
     if (!selectedObject || !(selectedObject instanceof THREE.Mesh)) return true;
@@ -53,6 +148,12 @@ const Toolbar: React.FC = () => {
     );
   };
 
+  const snappingIncrements = [
+    { key: 'translate', label: 'Move', min: 0.001, step: 0.25 },
+    { key: 'rotate', label: 'Rotate (°)', min: 0.1, step: 5 },
+    { key: 'scale', label: 'Scale', min: 0.001, step: 0.05 }
+  ] as const;
+
   const editTools = [
     {
       icon: Vector,
@@ -67,54 +168,102 @@ const Toolbar: React.FC = () => {
       title: 'Edit Edges',
       type: 'edit',
       disabled: isEdgeEditingDisabled()
+    },
+    {
+      icon: Triangle,
+      mode: 'face',
+      title: 'Edit Faces',
+      type: 'edit',
+      disabled: !(selectedObject instanceof THREE.Mesh)
+    },
+    {
+      icon: ArrowUpFromLine,
+      mode: 'extrude',
+      title: 'Extrude Faces',
+      type: 'edit',
+      disabled: !(selectedObject instanceof THREE.Mesh) || selectedElements.faces.length === 0
+    },
+    {
+      icon: Squircle,
+      mode: 'bevel',
+      title: 'Bevel Edges',
+      type: 'edit',
+      disabled: !(selectedObject instanceof THREE.Mesh) || selectedElements.edges.length === 0
+    },
+    {
+      icon: Spline,
+      mode: 'curve',
+      title: 'Draw NURBS Curve',
+      type: 'edit',
+      disabled: false
+    },
+    {
+      icon: Grid3x3,
+      mode: 'nurbs',
+      title: 'Draw NURBS Surface',
+      type: 'edit',
+      disabled: false
     }
   ] as const;
 
+  const chooseEditTool = (mode: typeof editTools[number]['mode']) => {
+    const tool = editTools.find(entry => entry.mode === mode);
+    if (!tool || tool.disabled) return false;
+    setEditMode(mode);
+    setTransformMode(null);
+    setSelectionTool(null);
+  };
+
+  const editToolShortcuts: Partial<Record<typeof editTools[number]['mode'], KeyCombo[]>> = {
+    vertex: keyBindings.vertexMode,
+    edge: keyBindings.edgeMode,
+    face: keyBindings.faceMode
+  };
+
+  // Registered on every render, so the handlers see the current selection
+  useEffect(() => registerShortcutHandlers({
+    translate: () => chooseTransformTool('translate'),
+    rotate: () => chooseTransformTool('rotate'),
+    scale: () => chooseTransformTool('scale'),
+    vertexMode: () => chooseEditTool('vertex'),
+    edgeMode: () => chooseEditTool('edge'),
+    faceMode: () => chooseEditTool('face')
+  }));
+
   return (
-    <div className="absolute top-4 left-4 bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 p-3 border border-white/5">
+    <div className="absolute top-4 left-4 bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 p-3 border border-white/5 max-h-[calc(100vh-2rem)] overflow-y-auto">
       <div className="flex flex-col gap-3">
         {/* 3D Shapes */}
         <div className="space-y-1 border-b border-white/10 pb-3">
-          <button
-            onClick={() => createObject(new THREE.BoxGeometry(), 'Cube')}
-            className="p-2 hover:bg-white/5 rounded-lg transition-colors w-full flex items-center gap-2 text-white/90"
-            title="Add Cube"
-          >
-            <Cuboid className="w-5 h-5" />
-            <span className="text-sm font-medium">Cube</span>
-          </button>
-          <button
-            onClick={() => createObject(new THREE.SphereGeometry(0.5, 32, 16), 'Sphere')}
-            className="p-2 hover:bg-white/5 rounded-lg transition-colors w-full flex items-center gap-2 text-white/90"
-            title="Add Sphere"
-          >
-            <Cherry className="w-5 h-5" />
-            <span className="text-sm font-medium">Sphere</span>
-          </button>
-          <button
-            onClick={() => createObject(new THREE.CylinderGeometry(0.5, 0.5, 1, 32), 'Cylinder')}
-            className="p-2 hover:bg-white/5 rounded-lg transition-colors w-full flex items-center gap-2 text-white/90"
-            title="Add Cylinder"
-          >
-            <Cylinder className="w-5 h-5" />
-            <span className="text-sm font-medium">Cylinder</span>
-          </button>
-          <button
-            onClick={() => createObject(new THREE.ConeGeometry(0.5, 1, 32), 'Cone')}
-            className="p-2 hover:bg-white/5 rounded-lg transition-colors w-full flex items-center gap-2 text-white/90"
-            title="Add Cone"
-          >
-            <Cone className="w-5 h-5" />
-            <span className="text-sm font-medium">Cone</span>
-          </button>
-          <button
-            onClick={() => createObject(new THREE.TetrahedronGeometry(0.5), 'Tetrahedron')}
-            className="p-2 hover:bg-white/5 rounded-lg transition-colors w-full flex items-center gap-2 text-white/90"
-            title="Add Tetrahedron"
-          >
-            <Pyramid className="w-5 h-5" />
-            <span className="text-sm font-medium">Tetrahedron</span>
-          </button>
+          {shapeTools.map(({ icon: Icon, name, create, flat }) => (
+            <button
+              key={name}
+              onClick={() => createObject(create(), name, flat)}
+              className="p-2 hover:bg-white/5 rounded-lg transition-colors w-full flex items-center gap-2 text-white/90"
+              title={`Add ${name}`}
+            >
+              <Icon className="w-5 h-5" />
+              <span className="text-sm font-medium">{name}</span>
+            </button>
+          ))}
+        </div>
+
+        {/* Lights */}
+        <div className="space-y-1 border-b border-white/10 pb-3">
+          <div className="px-2 py-1">
+            <h3 className="text-xs font-medium text-white/50 uppercase tracking-wider">Lights</h3>
+          </div>
+          {lightTools.map(({ icon: Icon, type, title }) => (
+            <button
+              key={type}
+              onClick={() => addObject(createLight(type), LIGHT_LABELS[type])}
+              className="p-2 hover:bg-white/5 rounded-lg transition-colors w-full flex items-center gap-2 text-white/90"
+              title={`Add ${LIGHT_LABELS[type]}`}
+            >
+              <Icon className="w-5 h-5" />
+              <span className="text-sm font-medium">{title}</span>
+            </button>
+          ))}
         </div>
 
         {/* Transform Tools */}
@@ -125,16 +274,41 @@ const Toolbar: React.FC = () => {
           {transformTools.map(({ icon: Icon, mode, title }) => (
             <button
               key={mode}
+              onClick={() => chooseTransformTool(mode)}
+              className={`p-2 rounded-lg transition-colors w-full flex items-center gap-2 ${
+                transformMode === mode && (!editMode || editMode === 'vertex')
+                  ? 'bg-blue-500/20 text-blue-400'
+                  : 'text-white/90 hover:bg-white/5'
+              }`}
+              title={withShortcut(title, keyBindings[mode])}
+            >
+              <Icon className="w-5 h-5" />
+              <span className="text-sm font-medium">{title}</span>
+            </button>
+          ))}
+        </div>
+
+        {/* Selection Tools */}
+        <div className="space-y-1 border-b border-white/10 pb-3">
+          <div className="px-2 py-1">
+            <h3 className="text-xs font-medium text-white/50 uppercase tracking-wider">Select</h3>
+          </div>
+          {selectionTools.map(({ icon: Icon, tool, title }) => (
+            <button
+              key={tool}
               onClick={() => {
-                setTransformMode(mode);
-                setEditMode(null);
+                // Clicking the active tool again goes back to orbiting
+                setSelectionTool(selectionTool === tool ? null : tool);
+                setTransformMode(null);
+                // Vertex mode stays on so regions can pick vertices
+                if (editMode !== 'vertex') setEditMode(null);
               }}
               className={`p-2 rounded-lg transition-colors w-full flex items-center gap-2 ${
-                transformMode === mode && !editMode 
+                selectionTool === tool
                   ? 'bg-blue-500/20 text-blue-400'
                   : 'text-white/90 hover:bg-white/5'
               }`}
-              title={title}
+              title={`${title} (drag in the viewport; Shift or Ctrl adds to the selection)`}
             >
               <Icon className="w-5 h-5" />
               <span className="text-sm font-medium">{title}</span>
@@ -142,20 +316,101 @@ const Toolbar: React.FC = () => {
           ))}
         </div>
 
+        {/* Snapping */}
+        <div className="space-y-1 border-b border-white/10 pb-3">
+          <div className="px-2 py-1">
+            <h3 className="text-xs font-medium text-white/50 uppercase tracking-wider">Snap</h3>
+          </div>
+          <button
+            onClick={() => setSnapping({ enabled: !snapping.enabled })}
+            className={`p-2 rounded-lg transition-colors w-full flex items-center gap-2 ${
+              snapping.enabled
+                ? 'bg-blue-500/20 text-blue-400'
+                : 'text-white/90 hover:bg-white/5'
+            }`}
+            title="Snap moves to the grid and rotations and scaling to increments (hold Ctrl to flip)"
+          >
+            <Magnet className="w-5 h-5" />
+            <span className="text-sm font-medium">Snapping</span>
+          </button>
+          <button
+            onClick={() => setSnapping({ elements: !snapping.elements })}
+            className={`p-2 rounded-lg transition-colors w-full flex items-center gap-2 ${
+              snapping.elements
+                ? 'bg-blue-500/20 text-blue-400'
+                : 'text-white/90 hover:bg-white/5'
+            }`}
+            title="Dragged vertices snap to vertices, edge midpoints and faces of other objects (hold Ctrl to suspend)"
+          >
+            <Crosshair className="w-5 h-5" />
+            <span className="text-sm font-medium">Snap to Elements</span>
+          </button>
+          {snappingIncrements.map(({ key, label, min, step }) => (
+            <label key={key} className="px-2 flex items-center justify-between gap-2 text-xs text-white/50">
+              {label}
+              <input
+                type="number"
+                value={snapping[key]}
+                min={min}
+                step={step}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (value >= min) setSnapping({ [key]: value });
+                }}
+                className="w-16 bg-[#2a2a2a] border border-white/10 rounded px-1.5 py-0.5 text-right text-white/90 focus:outline-none focus:border-blue-500/50"
+              />
+            </label>
+          ))}
+          {snapping.translate !== GRID_CELL_SIZE && (
+            <button
+              onClick={() => setSnapping({ translate: GRID_CELL_SIZE })}
+              className="px-2 text-xs text-blue-400 hover:text-blue-300"
+            >
+              Match grid ({GRID_CELL_SIZE})
+            </button>
+          )}
+        </div>
+
+        {/* Viewport Layout */}
+        <div className="space-y-1 border-b border-white/10 pb-3">
+          <div className="px-2 py-1">
+            <h3 className="text-xs font-medium text-white/50 uppercase tracking-wider">View</h3>
+          </div>
+          <button
+            onClick={() => setViewportLayout(viewportLayout === 'quad' ? 'single' : 'quad')}
+            className={`p-2 rounded-lg transition-colors w-full flex items-center gap-2 ${
+              viewportLayout === 'quad'
+                ? 'bg-blue-500/20 text-blue-400'
+                : 'text-white/90 hover:bg-white/5'
+            }`}
+            title={`Split the viewport into top, front, right and perspective views${
+              keyBindings.toggleMaximize.length > 0
+                ? ` (${formatKeyCombo(keyBindings.toggleMaximize[0])} maximizes the view under the pointer)`
+                : ''
+            }`}
+          >
+            <LayoutGrid className="w-5 h-5" />
+            <span className="text-sm font-medium">Four Views</span>
+          </button>
+          <button
+            onClick={() => setKeymapEditorOpen(true)}
+            className="p-2 hover:bg-white/5 rounded-lg transition-colors w-full flex items-center gap-2 text-white/90"
+            title="View and Change Keyboard Shortcuts"
+          >
+            <Keyboard className="w-5 h-5" />
+            <span className="text-sm font-medium">Shortcuts</span>
+          </button>
+        </div>
+
         {/* Edit Tools */}
-        <div className="space-y-1">
+        <div className="space-y-1 border-b border-white/10 pb-3">
           <div className="px-2 py-1">
             <h3 className="text-xs font-medium text-white/50 uppercase tracking-wider">Edit Mode</h3>
           </div>
           {editTools.map(({ icon: Icon, mode, title, disabled }) => (
             <button
               key={mode}
-              onClick={() => {
-                if (!disabled) {
-                  setEditMode(mode);
-                  setTransformMode(null);
-                }
-              }}
+              onClick={() => chooseEditTool(mode)}
               disabled={disabled}
               className={`p-2 rounded-lg transition-colors w-full flex items-center gap-2 ${
                 disabled
@@ -164,13 +419,90 @@ const Toolbar: React.FC = () => {
                     ? 'bg-blue-500/20 text-blue-400'
                     : 'text-white/90 hover:bg-white/5'
               }`}
-              title={disabled ? `${title} (Not available for this object type)` : title}
+              title={disabled ? `${title} (Not available for this object type)` : withShortcut(title, editToolShortcuts[mode] ?? [])}
             >
               <Icon className="w-5 h-5" />
               <span className="text-sm font-medium">{title}</span>
             </button>
           ))}
         </div>
+
+        {/* File */}
+        <div className="space-y-1">
+          <div className="px-2 py-1">
+            <h3 className="text-xs font-medium text-white/50 uppercase tracking-wider">File</h3>
+          </div>
+          <button
+            onClick={saveScene}
+            className="p-2 hover:bg-white/5 rounded-lg transition-colors w-full flex items-center gap-2 text-white/90"
+            title="Save Scene"
+          >
+            <Save className="w-5 h-5" />
+            <span className="text-sm font-medium">Save Scene</span>
+          </button>
+          <button
+            onClick={() => sceneFileInput.current?.click()}
+            className="p-2 hover:bg-white/5 rounded-lg transition-colors w-full flex items-center gap-2 text-white/90"
+            title="Open Scene"
+          >
+            <FolderOpen className="w-5 h-5" />
+            <span className="text-sm font-medium">Open Scene</span>
+          </button>
+          <button
+            onClick={() => modelFileInput.current?.click()}
+            className="p-2 hover:bg-white/5 rounded-lg transition-colors w-full flex items-center gap-2 text-white/90"
+            title="Import OBJ, STL or glTF (pick a .gltf together with its .bin and texture files)"
+          >
+            <Upload className="w-5 h-5" />
+            <span className="text-sm font-medium">Import Model</span>
+          </button>
+          <button
+            onClick={() => exportScene(false)}
+            className="p-2 hover:bg-white/5 rounded-lg transition-colors w-full flex items-center gap-2 text-white/90"
+            title="Export as glTF (.gltf)"
+          >
+            <Download className="w-5 h-5" />
+            <span className="text-sm font-medium">Export glTF</span>
+          </button>
+          <button
+            onClick={() => exportScene(true)}
+            className="p-2 hover:bg-white/5 rounded-lg transition-colors w-full flex items-center gap-2 text-white/90"
+            title="Export as binary glTF (.glb)"
+          >
+            <Download className="w-5 h-5" />
+            <span className="text-sm font-medium">Export GLB</span>
+          </button>
+          <label className="px-2 py-1 flex items-center gap-2 text-xs text-white/50 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={exportSelectionOnly}
+              onChange={(e) => setExportSelectionOnly(e.target.checked)}
+            />
+            Export selection only
+          </label>
+          <input
+            ref={sceneFileInput}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) openScene(file);
+              e.target.value = '';
+            }}
+          />
+          <input
+            ref={modelFileInput}
+            type="file"
+            accept={[...IMPORT_EXTENSIONS, ...RESOURCE_EXTENSIONS].join(',')}
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              importModelFiles(Array.from(e.target.files || []));
+              e.target.value = '';
+            }}
+          />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,222 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useFrame, type ThreeEvent } from '@react-three/fiber';
+import { Line } from '@react-three/drei';
+import { type CameraPerspective, useSceneStore } from '../store/sceneStore';
+import { getViewportView } from '../store/viewports';
+import * as THREE from 'three';
+
+// The cube is 1 across; its edges and corners are bands this wide
+const EDGE_SIZE = 0.22;
+const CUBE_ZOOM = 44;
+// Radians the camera turns per pixel of dragging, and the pixels a press
+// can move before it is a drag rather than a click
+const DRAG_SPEED = 0.01;
+const DRAG_THRESHOLD = 3;
+
+const FACE_COLOR = '#2a2a2a';
+const EDGE_COLOR = '#3a3a3a';
+const HOVER_COLOR = '#3b82f6';
+
+type Vector3Tuple = [number, number, number];
+
+// Labels read upright when the face is viewed through its preset
+const FACES: Array<{ perspective: CameraPerspective; label: string; normal: Vector3Tuple; rotation: Vector3Tuple }> = [
+  { perspective: 'front', label: 'FRONT', normal: [0, 0, 1], rotation: [0, 0, 0] },
+  { perspective: 'back', label: 'BACK', normal: [0, 0, -1], rotation: [0, Math.PI, 0] },
+  { perspective: 'right', label: 'RIGHT', normal: [1, 0, 0], rotation: [0, Math.PI / 2, 0] },
+  { perspective: 'left', label: 'LEFT', normal: [-1, 0, 0], rotation: [0, -Math.PI / 2, 0] },
+  { perspective: 'top', label: 'TOP', normal: [0, 1, 0], rotation: [-Math.PI / 2, 0, 0] },
+  { perspective: 'bottom', label: 'BOTTOM', normal: [0, -1, 0], rotation: [Math.PI / 2, 0, 0] }
+];
+
+const AXES: Array<{ label: string; direction: Vector3Tuple; color: string }> = [
+  { label: 'X', direction: [1, 0, 0], color: '#ef4444' },
+  { label: 'Y', direction: [0, 1, 0], color: '#22c55e' },
+  { label: 'Z', direction: [0, 0, 1], color: '#3b82f6' }
+];
+
+// Edges and corners, as the direction they are viewed from. Each of their
+// non-zero components puts them against that side of the cube.
+const SIGNS = [-1, 1];
+const EDGES: Vector3Tuple[] = [0, 1, 2].flatMap(free =>
+  SIGNS.flatMap(a => SIGNS.map(b => {
+    const [first, second] = [0, 1, 2].filter(axis => axis !== free);
+    const direction: Vector3Tuple = [0, 0, 0];
+    direction[first] = a;
+    direction[second] = b;
+    return direction;
+  }))
+);
+const CORNERS: Vector3Tuple[] = SIGNS.flatMap(x => SIGNS.flatMap(y => SIGNS.map(z => [x, y, z] as Vector3Tuple)));
+
+// A band sits against the sides its direction points to and spans the
+// middle of the cube along the others
+const getBandBox = (direction: Vector3Tuple) => ({
+  position: direction.map(component => component * (0.5 - EDGE_SIZE / 2)) as Vector3Tuple,
+  size: direction.map(component => (component === 0 ? 1 - 2 * EDGE_SIZE : EDGE_SIZE)) as Vector3Tuple
+});
+
+const createLabelTexture = (text: string, color: string, background: string | null, fontSize: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 128;
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.fillStyle = color;
+  context.font = `bold ${fontSize}px sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText(text, canvas.width / 2, canvas.height / 2);
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+};
+
+const CubeBand = ({ direction, hovered, onHover }: {
+  direction: Vector3Tuple;
+  hovered: boolean;
+  onHover: (direction: Vector3Tuple | null) => void;
+}) => {
+  const { position, size } = getBandBox(direction);
+  return (
+    <mesh
+      position={position}
+      onPointerOver={(e) => {
+        e.stopPropagation();
+        onHover(direction);
+      }}
+      onPointerOut={() => onHover(null)}
+      onClick={(e: ThreeEvent<MouseEvent>) => {
+        e.stopPropagation();
+        if (e.delta <= 2) {
+          useSceneStore.getState().orbitCameraTo(new THREE.Vector3(...direction).normalize());
+        }
+      }}
+    >
+      <boxGeometry args={size} />
+      <meshBasicMaterial color={hovered ? HOVER_COLOR : EDGE_COLOR} />
+    </mesh>
+  );
+};
+
+// The cube, turned so it shows the world the way the main view does
+const Cube = () => {
+  const group = useRef<THREE.Group>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const faceTextures = useMemo(
+    () => FACES.map(({ label }) => ({
+      normal: createLabelTexture(label, '#e5e5e5', FACE_COLOR, 26),
+      hovered: createLabelTexture(label, '#ffffff', HOVER_COLOR, 26)
+    })),
+    []
+  );
+  const axisTextures = useMemo(
+    () => AXES.map(({ label, color }) => createLabelTexture(label, color, null, 96)),
+    []
+  );
+
+  useEffect(() => () => {
+    faceTextures.forEach(({ normal, hovered: highlighted }) => {
+      normal.dispose();
+      highlighted.dispose();
+    });
+    axisTextures.forEach(texture => texture.dispose());
+  }, [faceTextures, axisTextures]);
+
+  useFrame(() => {
+    const camera = getViewportView('perspective')?.camera;
+    if (camera && group.current) {
+      group.current.quaternion.copy(camera.quaternion).invert();
+    }
+  });
+
+  const handleHover = (key: string) => (direction: Vector3Tuple | null) => setHovered(direction ? key : null);
+
+  return (
+    <group ref={group}>
+      {FACES.map(({ perspective, normal, rotation }, i) => (
+        <mesh
+          key={perspective}
+          position={normal.map(component => component * 0.5) as Vector3Tuple}
+          rotation={rotation}
+          onPointerOver={(e) => {
+            e.stopPropagation();
+            setHovered(perspective);
+          }}
+          onPointerOut={() => setHovered(null)}
+          onClick={(e: ThreeEvent<MouseEvent>) => {
+            e.stopPropagation();
+            if (e.delta <= 2) useSceneStore.getState().setCameraPerspective(perspective);
+          }}
+        >
+          <planeGeometry args={[1 - 2 * EDGE_SIZE, 1 - 2 * EDGE_SIZE]} />
+          <meshBasicMaterial map={hovered === perspective ? faceTextures[i].hovered : faceTextures[i].normal} />
+        </mesh>
+      ))}
+      {[...EDGES, ...CORNERS].map(direction => {
+        const key = direction.join(',');
+        return <CubeBand key={key} direction={direction} hovered={hovered === key} onHover={handleHover(key)} />;
+      })}
+      {AXES.map(({ label, direction, color }, i) => (
+        <group key={label}>
+          <Line points={[[0, 0, 0], direction.map(component => component * 0.85) as Vector3Tuple]} color={color} lineWidth={2} raycast={() => null} />
+          <sprite position={direction} scale={0.3} raycast={() => null}>
+            <spriteMaterial map={axisTextures[i]} />
+          </sprite>
+        </group>
+      ))}
+    </group>
+  );
+};
+
+// Orientation cube for the main view. Faces, edges and corners turn the
+// camera to look from their side; dragging the cube orbits the camera.
+const ViewCube: React.FC = () => {
+  const drag = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+
+  useEffect(() => {
+    const handlePointerMove = (event: PointerEvent) => {
+      const current = drag.current;
+      if (!current) return;
+      const dx = event.clientX - current.x;
+      const dy = event.clientY - current.y;
+      if (!current.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+
+      current.moved = true;
+      current.x = event.clientX;
+      current.y = event.clientY;
+      useSceneStore.getState().orbitCameraBy(dx * DRAG_SPEED, dy * DRAG_SPEED);
+    };
+    const handlePointerUp = () => {
+      drag.current = null;
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, []);
+
+  return (
+    <div
+      className="absolute left-4 bottom-4 w-28 h-28 cursor-pointer"
+      style={{ filter: 'drop-shadow(0 2px 4px rgba(0,0,0,0.5))' }}
+      title="Click a face, edge or corner to view from it; drag to orbit"
+      onPointerDown={(e) => {
+        if (e.button === 0) drag.current = { x: e.clientX, y: e.clientY, moved: false };
+      }}
+    >
+      <Canvas orthographic camera={{ position: [0, 0, 10], zoom: CUBE_ZOOM }}>
+        <Cube />
+      </Canvas>
+    </div>
+  );
+};
+
+export default ViewCube;
@@ -0,0 +1,64 @@
+import { useEffect, useMemo } from 'react';
+import { useSceneStore } from '../store/sceneStore';
+import { type ViewportPane, VIEWPORT_PANES, getActiveViewport } from '../store/viewports';
+import { formatKeyCombo, registerShortcutHandlers } from '../store/keymap';
+
+const PANE_LABELS: Record<ViewportPane, string> = {
+  top: 'Top',
+  front: 'Front',
+  right: 'Right',
+  perspective: 'Perspective'
+};
+
+interface ViewportFramesProps {
+  onPaneElement: (pane: ViewportPane, element: HTMLDivElement | null) => void;
+}
+
+// Outlines and labels the panes of the quad layout. Each pane's element is
+// what its orbit controls and gizmos listen on; panes hidden while another
+// is maximized stay mounted so their controls have nothing to react to.
+const ViewportFrames = ({ onPaneElement }: ViewportFramesProps) => {
+  const { maximizedViewport, activeViewport, viewportLayout, toggleMaximizedViewport, keyBindings } = useSceneStore();
+  const [maximizeKey] = keyBindings.toggleMaximize;
+  const active = getActiveViewport({ viewportLayout, maximizedViewport, activeViewport });
+
+  // Stable callbacks, so the elements are only reported when they change
+  const refs = useMemo(
+    () => Object.fromEntries(
+      VIEWPORT_PANES.map(pane => [pane, (element: HTMLDivElement | null) => onPaneElement(pane, element)])
+    ) as Record<ViewportPane, (element: HTMLDivElement | null) => void>,
+    [onPaneElement]
+  );
+
+  // Maximizes the pane under the pointer, or brings back all four
+  useEffect(() => registerShortcutHandlers({ toggleMaximize: toggleMaximizedViewport }), [toggleMaximizedViewport]);
+
+  return (
+    <>
+      {VIEWPORT_PANES.map((pane, index) => {
+        const hidden = maximizedViewport !== null && maximizedViewport !== pane;
+        const style = maximizedViewport
+          ? { left: 0, top: 0, width: '100%', height: '100%' }
+          : { left: `${(index % 2) * 50}%`, top: `${Math.floor(index / 2) * 50}%`, width: '50%', height: '50%' };
+
+        return (
+          <div
+            key={pane}
+            ref={refs[pane]}
+            style={style}
+            className={`absolute border ${hidden ? 'hidden' : ''} ${
+              pane === active ? 'border-blue-500/40' : 'border-white/10'
+            }`}
+          >
+            <span className="absolute left-1/2 top-2 -translate-x-1/2 text-xs font-medium text-white/50 select-none pointer-events-none">
+              {PANE_LABELS[pane]}
+              {pane === maximizedViewport && maximizeKey && ` (${formatKeyCombo(maximizeKey)} to restore)`}
+            </span>
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default ViewportFrames;
@@ -0,0 +1,151 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import { useSceneStore } from '../store/sceneStore';
+import {
+  CAMERA_VIEWS,
+  FRAME_PADDING,
+  MIN_FRAME_RADIUS,
+  ORTHOGRAPHIC_DISTANCE,
+  TRANSITION_SECONDS,
+  type ViewportPane,
+  getActiveViewport,
+  getViewportRect,
+  getViewportView,
+  getVisibleViewports,
+  setViewportView
+} from '../store/viewports';
+import * as THREE from 'three';
+
+type OrbitControlsImpl = React.ElementRef<typeof OrbitControls>;
+type AxisPane = Exclude<ViewportPane, 'perspective'>;
+
+const AXIS_PANES: AxisPane[] = ['top', 'front', 'right'];
+// Pixels per world unit when an axis pane first opens
+const AXIS_PANE_ZOOM = 40;
+
+interface FrameTransition {
+  fromTarget: THREE.Vector3;
+  toTarget: THREE.Vector3;
+  fromZoom: number;
+  toZoom: number;
+  progress: number;
+}
+
+// A fixed orthographic view down one axis. It pans and zooms but doesn't
+// orbit, with controls that only listen on the pane's element.
+const AxisViewport = ({ pane, element }: { pane: AxisPane; element: HTMLElement }) => {
+  const { viewportLayout, maximizedViewport } = useSceneStore();
+  const size = useThree((state) => state.size);
+  const get = useThree((state) => state.get);
+  const controlsRef = useRef<OrbitControlsImpl>(null);
+  const transition = useRef<FrameTransition | null>(null);
+
+  const camera = useMemo(() => {
+    const { direction, up } = CAMERA_VIEWS[pane];
+    const orthographic = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, ORTHOGRAPHIC_DISTANCE * 10);
+    orthographic.up.copy(up);
+    orthographic.position.copy(direction).multiplyScalar(ORTHOGRAPHIC_DISTANCE);
+    orthographic.lookAt(0, 0, 0);
+    orthographic.zoom = AXIS_PANE_ZOOM;
+    return orthographic;
+  }, [pane]);
+
+  useLayoutEffect(() => {
+    const { width, height } = getViewportRect(pane, { viewportLayout, maximizedViewport }, size);
+    camera.left = width / -2;
+    camera.right = width / 2;
+    camera.top = height / 2;
+    camera.bottom = height / -2;
+    camera.updateProjectionMatrix();
+  }, [camera, pane, size, viewportLayout, maximizedViewport]);
+
+  // Pans to the centre of the bounds and zooms to fit them
+  const frame = useCallback((bounds: THREE.Box3) => {
+    const controls = controlsRef.current;
+    if (!controls) return;
+    const { width, height } = getViewportRect(pane, useSceneStore.getState(), get().size);
+    const sphere = bounds.getBoundingSphere(new THREE.Sphere());
+    const radius = Math.max(sphere.radius, MIN_FRAME_RADIUS) * FRAME_PADDING;
+    transition.current = {
+      fromTarget: controls.target.clone(),
+      toTarget: sphere.center.clone(),
+      fromZoom: camera.zoom,
+      toZoom: Math.min(width, height) / (2 * radius),
+      progress: 0
+    };
+  }, [pane, camera, get]);
+
+  useEffect(() => {
+    setViewportView(pane, { camera, controls: controlsRef.current, frame });
+    return () => setViewportView(pane, null);
+  }, [pane, camera, frame]);
+
+  useFrame((_, delta) => {
+    const active = transition.current;
+    const controls = controlsRef.current;
+    if (!active || !controls) return;
+
+    active.progress = Math.min(active.progress + delta / TRANSITION_SECONDS, 1);
+    const t = THREE.MathUtils.smoothstep(active.progress, 0, 1);
+    controls.target.lerpVectors(active.fromTarget, active.toTarget, t);
+    camera.position.copy(controls.target).addScaledVector(CAMERA_VIEWS[pane].direction, ORTHOGRAPHIC_DISTANCE);
+    camera.zoom = THREE.MathUtils.lerp(active.fromZoom, active.toZoom, t);
+    camera.updateProjectionMatrix();
+    controls.update();
+    if (active.progress === 1) transition.current = null;
+  });
+
+  return <OrbitControls ref={controlsRef} camera={camera} domElement={element} enableRotate={false} />;
+};
+
+// Takes over rendering from the canvas to draw each visible pane with its
+// own camera
+const QuadRenderer = () => {
+  useFrame(({ gl, scene, size }) => {
+    const layout = useSceneStore.getState();
+    gl.setScissorTest(true);
+    getVisibleViewports(layout).forEach(pane => {
+      const view = getViewportView(pane);
+      if (!view) return;
+      const { left, top, width, height } = getViewportRect(pane, layout, size);
+      // WebGL measures from the bottom left
+      const bottom = size.height - top - height;
+      gl.setViewport(left, bottom, width, height);
+      gl.setScissor(left, bottom, width, height);
+      gl.render(scene, view.camera);
+    });
+    gl.setScissorTest(false);
+    gl.setViewport(0, 0, size.width, size.height);
+  }, 1);
+
+  return null;
+};
+
+// The cameras of the quad layout's axis panes, and the rendering that shows
+// all four. Whichever layout is on, the active pane's camera and controls
+// are made the canvas defaults, so gizmos and edit overlays work in it.
+const ViewportPanes = ({ elements }: { elements: Partial<Record<ViewportPane, HTMLElement>> }) => {
+  const { viewportLayout } = useSceneStore();
+
+  useFrame(({ camera, controls, set }) => {
+    const view = getViewportView(getActiveViewport(useSceneStore.getState()));
+    if (view && (view.camera !== camera || view.controls !== controls)) {
+      set({ camera: view.camera, controls: view.controls });
+    }
+  });
+
+  if (viewportLayout !== 'quad') return null;
+
+  return (
+    <>
+      {AXIS_PANES.map(pane => {
+        const element = elements[pane];
+        return element && <AxisViewport key={pane} pane={pane} element={element} />;
+      })}
+      <QuadRenderer />
+    </>
+  );
+};
+
+export default ViewportPanes;
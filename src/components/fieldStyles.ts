@@ -0,0 +1,6 @@
+// Classes for the text, number and select inputs of the properties panel
+export const inputClassName = (locked: boolean) => `border rounded px-2 py-1 text-sm focus:outline-none ${
+  locked
+    ? 'bg-[#1a1a1a] border-white/5 text-white/30 cursor-not-allowed'
+    : 'bg-[#2a2a2a] border-white/10 text-white/90 focus:border-blue-500/50'
+}`;
@@ -0,0 +1,68 @@
+import * as THREE from 'three';
+import { ADDITION, Brush, Evaluator, INTERSECTION, SUBTRACTION } from 'three-bvh-csg';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+
+export type BooleanOperation = 'union' | 'subtract' | 'intersect';
+
+const operations = {
+  union: ADDITION,
+  subtract: SUBTRACTION,
+  intersect: INTERSECTION
+};
+
+// three-bvh-csg needs every brush to carry the same attributes
+const CSG_ATTRIBUTES = ['position', 'uv', 'normal'];
+
+const toBrush = (mesh: THREE.Mesh, attributes: string[]) => {
+  const geometry = new THREE.BufferGeometry();
+  attributes.forEach(name => geometry.setAttribute(name, mesh.geometry.attributes[name]));
+  geometry.setIndex(mesh.geometry.index);
+  mesh.geometry.groups.forEach(({ start, count, materialIndex }) => geometry.addGroup(start, count, materialIndex));
+
+  const brush = new Brush(geometry, mesh.material);
+  mesh.updateWorldMatrix(true, false);
+  mesh.matrixWorld.decompose(brush.position, brush.quaternion, brush.scale);
+  brush.updateMatrixWorld();
+  return brush;
+};
+
+// Combines the meshes left to right (for subtract, the first one minus all
+// others) in world space. Faces keep the material of the operand they came
+// from; materials are copied so the operands can still be edited on their
+// own. Returns null when nothing is left.
+export const computeBoolean = (meshes: THREE.Mesh[], operation: BooleanOperation) => {
+  const attributes = CSG_ATTRIBUTES.filter(name => meshes.every(mesh => mesh.geometry.attributes[name]));
+  const evaluator = new Evaluator();
+  evaluator.attributes = attributes;
+  evaluator.useGroups = true;
+
+  const brushes = meshes.map(mesh => toBrush(mesh, attributes));
+  const result = brushes.slice(1).reduce(
+    (current, brush) => evaluator.evaluate(current, brush, operations[operation]),
+    brushes[0]
+  );
+  brushes.forEach(brush => brush.disposeCacheData());
+
+  if (result.geometry.attributes.position.count === 0) {
+    result.geometry.dispose();
+    return null;
+  }
+
+  // Weld the triangle soup so vertex and edge editing work on the result
+  const geometry = mergeVertices(result.geometry);
+  result.geometry.dispose();
+  geometry.computeBoundingBox();
+  const center = (geometry.boundingBox as THREE.Box3).getCenter(new THREE.Vector3());
+  geometry.translate(-center.x, -center.y, -center.z);
+
+  const materials = (Array.isArray(result.material) ? result.material : [result.material]).map(material => material.clone());
+  let material: THREE.Material | THREE.Material[] = materials;
+  if (materials.length === 1) {
+    geometry.clearGroups();
+    material = materials[0];
+  }
+
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.position.copy(center);
+  return mesh;
+};
@@ -0,0 +1,88 @@
+import * as THREE from 'three';
+import { MeshBVH } from 'three-mesh-bvh';
+
+export type SnapTargetKind = 'vertex' | 'edge' | 'face';
+
+export interface SnapTarget {
+  kind: SnapTargetKind;
+  // World space
+  position: THREE.Vector3;
+}
+
+// Vertices and edge midpoints within this many pixels of the cursor win over
+// the point on the face under it
+const SNAP_RADIUS = 12;
+
+// BVHs are built on a private copy so the mesh's own index (and with it the
+// face numbering used by face editing) is left alone. They are rebuilt when
+// the geometry's positions change.
+const bvhCache = new WeakMap<THREE.BufferGeometry, { version: number; bvh: MeshBVH }>();
+
+const getBVH = (geometry: THREE.BufferGeometry) => {
+  const positions = geometry.attributes.position as THREE.BufferAttribute;
+  const cached = bvhCache.get(geometry);
+  if (cached && cached.version === positions.version) return cached.bvh;
+
+  const copy = new THREE.BufferGeometry();
+  copy.setAttribute('position', positions.clone());
+  if (geometry.index) copy.setIndex(geometry.index.clone());
+  const bvh = new MeshBVH(copy);
+  bvhCache.set(geometry, { version: positions.version, bvh });
+  return bvh;
+};
+
+// Finds the vertex, edge midpoint or face point of the meshes closest to the
+// cursor, looking at the triangle under it. `pointer` is in normalized device
+// coordinates and the raycaster must already be set from it.
+export const findSnapTarget = (
+  raycaster: THREE.Raycaster,
+  camera: THREE.Camera,
+  pointer: THREE.Vector2,
+  size: { width: number; height: number },
+  meshes: THREE.Mesh[]
+): SnapTarget | null => {
+  let nearest: { mesh: THREE.Mesh; bvh: MeshBVH; hit: THREE.Intersection; distance: number } | null = null;
+  const inverse = new THREE.Matrix4();
+
+  for (const mesh of meshes) {
+    if (!mesh.geometry.attributes.position) continue;
+    const bvh = getBVH(mesh.geometry);
+    inverse.copy(mesh.matrixWorld).invert();
+    const ray = raycaster.ray.clone().applyMatrix4(inverse);
+    const hit = bvh.raycastFirst(ray, THREE.DoubleSide);
+    if (!hit?.face) continue;
+
+    const distance = hit.point.clone().applyMatrix4(mesh.matrixWorld).distanceTo(raycaster.ray.origin);
+    if (!nearest || distance < nearest.distance) {
+      nearest = { mesh, bvh, hit, distance };
+    }
+  }
+
+  if (!nearest) return null;
+  const { mesh, bvh, hit } = nearest;
+  const face = hit.face as THREE.Face;
+  const positions = bvh.geometry.attributes.position;
+  const corners = [face.a, face.b, face.c].map(index =>
+    new THREE.Vector3().fromBufferAttribute(positions, index).applyMatrix4(mesh.matrixWorld)
+  );
+  const midpoints = corners.map((corner, i) => corner.clone().lerp(corners[(i + 1) % 3], 0.5));
+
+  const pixelDistance = (point: THREE.Vector3) => {
+    const projected = point.clone().project(camera);
+    return Math.hypot(
+      ((projected.x - pointer.x) / 2) * size.width,
+      ((projected.y - pointer.y) / 2) * size.height
+    );
+  };
+  const closest = (points: THREE.Vector3[]) => points
+    .map(point => ({ point, distance: pixelDistance(point) }))
+    .filter(({ distance }) => distance <= SNAP_RADIUS)
+    .sort((a, b) => a.distance - b.distance)[0]?.point;
+
+  // Vertices take priority over edges, edges over the face
+  const vertex = closest(corners);
+  if (vertex) return { kind: 'vertex', position: vertex };
+  const midpoint = closest(midpoints);
+  if (midpoint) return { kind: 'edge', position: midpoint };
+  return { kind: 'face', position: hit.point.clone().applyMatrix4(mesh.matrixWorld) };
+};
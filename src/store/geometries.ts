@@ -0,0 +1,291 @@
+import * as THREE from 'three';
+
+export type GeometryParameters = Record<string, number | boolean>;
+
+// Builds each built-in geometry from the `parameters` object THREE keeps on it,
+// so a primitive can be recreated from its type name and parameters alone.
+const geometryFactories: Record<string, (p: GeometryParameters) => THREE.BufferGeometry> = {
+  BoxGeometry: (p) => new THREE.BoxGeometry(
+    p.width as number,
+    p.height as number,
+    p.depth as number,
+    p.widthSegments as number,
+    p.heightSegments as number,
+    p.depthSegments as number
+  ),
+  SphereGeometry: (p) => new THREE.SphereGeometry(
+    p.radius as number,
+    p.widthSegments as number,
+    p.heightSegments as number,
+    p.phiStart as number,
+    p.phiLength as number,
+    p.thetaStart as number,
+    p.thetaLength as number
+  ),
+  CylinderGeometry: (p) => new THREE.CylinderGeometry(
+    p.radiusTop as number,
+    p.radiusBottom as number,
+    p.height as number,
+    p.radialSegments as number,
+    p.heightSegments as number,
+    p.openEnded as boolean,
+    p.thetaStart as number,
+    p.thetaLength as number
+  ),
+  ConeGeometry: (p) => new THREE.ConeGeometry(
+    p.radius as number,
+    p.height as number,
+    p.radialSegments as number,
+    p.heightSegments as number,
+    p.openEnded as boolean,
+    p.thetaStart as number,
+    p.thetaLength as number
+  ),
+  TetrahedronGeometry: (p) => new THREE.TetrahedronGeometry(
+    p.radius as number,
+    p.detail as number
+  ),
+  OctahedronGeometry: (p) => new THREE.OctahedronGeometry(
+    p.radius as number,
+    p.detail as number
+  ),
+  DodecahedronGeometry: (p) => new THREE.DodecahedronGeometry(
+    p.radius as number,
+    p.detail as number
+  ),
+  IcosahedronGeometry: (p) => new THREE.IcosahedronGeometry(
+    p.radius as number,
+    p.detail as number
+  ),
+  PlaneGeometry: (p) => new THREE.PlaneGeometry(
+    p.width as number,
+    p.height as number,
+    p.widthSegments as number,
+    p.heightSegments as number
+  ),
+  CircleGeometry: (p) => new THREE.CircleGeometry(
+    p.radius as number,
+    p.segments as number,
+    p.thetaStart as number,
+    p.thetaLength as number
+  ),
+  RingGeometry: (p) => new THREE.RingGeometry(
+    p.innerRadius as number,
+    p.outerRadius as number,
+    p.thetaSegments as number,
+    p.phiSegments as number,
+    p.thetaStart as number,
+    p.thetaLength as number
+  ),
+  TorusGeometry: (p) => new THREE.TorusGeometry(
+    p.radius as number,
+    p.tube as number,
+    p.radialSegments as number,
+    p.tubularSegments as number,
+    p.arc as number
+  ),
+  TorusKnotGeometry: (p) => new THREE.TorusKnotGeometry(
+    p.radius as number,
+    p.tube as number,
+    p.tubularSegments as number,
+    p.radialSegments as number,
+    p.p as number,
+    p.q as number
+  ),
+  CapsuleGeometry: (p) => new THREE.CapsuleGeometry(
+    p.radius as number,
+    p.length as number,
+    p.capSegments as number,
+    p.radialSegments as number
+  ),
+};
+
+export const isPrimitiveGeometry = (geometry: THREE.BufferGeometry) =>
+  geometry.type in geometryFactories && 'parameters' in geometry;
+
+export const getGeometryParameters = (geometry: THREE.BufferGeometry): GeometryParameters =>
+  ({ ...(geometry as THREE.BufferGeometry & { parameters: GeometryParameters }).parameters });
+
+export const createGeometry = (type: string, parameters: GeometryParameters) => {
+  const factory = geometryFactories[type];
+  return factory ? factory(parameters) : null;
+};
+
+// One editable value of a primitive. Lengths and integer counts are limited
+// to what the geometry can build; angles are stored in radians.
+export interface GeometryParameterField {
+  key: string;
+  label: string;
+  kind: 'length' | 'integer' | 'angle' | 'boolean';
+  min?: number;
+  max?: number;
+}
+
+export interface PrimitiveDefinition {
+  label: string;
+  fields: GeometryParameterField[];
+}
+
+const MIN_LENGTH = 0.001;
+// Vertex mode draws a handle for every vertex, so counts stay within what it
+// can show: about 17k vertices for a sphere at the limit. Edge mode draws all
+// edges as one set of lines and is not what limits them. The panel shows each
+// field's range.
+const MAX_SEGMENTS = 128;
+const MAX_DETAIL = 8;
+
+const length = (key: string, label: string, min = MIN_LENGTH): GeometryParameterField =>
+  ({ key, label, kind: 'length', min });
+const segments = (key: string, label: string, min = 1, max = MAX_SEGMENTS): GeometryParameterField =>
+  ({ key, label, kind: 'integer', min, max });
+const angle = (key: string, label: string, min = 0): GeometryParameterField =>
+  ({ key, label, kind: 'angle', min, max: Math.PI * 2 });
+
+const thetaRange = [angle('thetaStart', 'Start Angle'), angle('thetaLength', 'Sweep', 0.01)];
+
+export const PRIMITIVE_DEFINITIONS: Record<string, PrimitiveDefinition> = {
+  BoxGeometry: {
+    label: 'Box',
+    fields: [
+      length('width', 'Width'),
+      length('height', 'Height'),
+      length('depth', 'Depth'),
+      // Each count applies to four of the six sides, each with its own vertices:
+      // at 32 a box already has about 6.5k
+      segments('widthSegments', 'Width Segments', 1, 32),
+      segments('heightSegments', 'Height Segments', 1, 32),
+      segments('depthSegments', 'Depth Segments', 1, 32),
+    ],
+  },
+  SphereGeometry: {
+    label: 'Sphere',
+    fields: [
+      length('radius', 'Radius'),
+      segments('widthSegments', 'Width Segments', 3),
+      segments('heightSegments', 'Height Segments', 2),
+    ],
+  },
+  CylinderGeometry: {
+    label: 'Cylinder',
+    fields: [
+      length('radiusTop', 'Top Radius', 0),
+      length('radiusBottom', 'Bottom Radius', 0),
+      length('height', 'Height'),
+      segments('radialSegments', 'Radial Segments', 3),
+      segments('heightSegments', 'Height Segments'),
+      { key: 'openEnded', label: 'Open ended', kind: 'boolean' },
+      ...thetaRange,
+    ],
+  },
+  ConeGeometry: {
+    label: 'Cone',
+    fields: [
+      length('radius', 'Radius'),
+      length('height', 'Height'),
+      segments('radialSegments', 'Radial Segments', 3),
+      segments('heightSegments', 'Height Segments'),
+      { key: 'openEnded', label: 'Open ended', kind: 'boolean' },
+      ...thetaRange,
+    ],
+  },
+  TetrahedronGeometry: {
+    label: 'Tetrahedron',
+    fields: [
+      length('radius', 'Radius'),
+      segments('detail', 'Detail', 0, MAX_DETAIL),
+    ],
+  },
+  OctahedronGeometry: {
+    label: 'Octahedron',
+    fields: [
+      length('radius', 'Radius'),
+      segments('detail', 'Detail', 0, MAX_DETAIL),
+    ],
+  },
+  DodecahedronGeometry: {
+    label: 'Dodecahedron',
+    fields: [
+      length('radius', 'Radius'),
+      segments('detail', 'Detail', 0, MAX_DETAIL),
+    ],
+  },
+  // Detail above zero subdivides it into an icosphere
+  IcosahedronGeometry: {
+    label: 'Icosahedron',
+    fields: [
+      length('radius', 'Radius'),
+      segments('detail', 'Detail', 0, MAX_DETAIL),
+    ],
+  },
+  PlaneGeometry: {
+    label: 'Plane',
+    fields: [
+      length('width', 'Width'),
+      length('height', 'Height'),
+      segments('widthSegments', 'Width Segments'),
+      segments('heightSegments', 'Height Segments'),
+    ],
+  },
+  CircleGeometry: {
+    label: 'Circle',
+    fields: [
+      length('radius', 'Radius'),
+      segments('segments', 'Segments', 3),
+      ...thetaRange,
+    ],
+  },
+  RingGeometry: {
+    label: 'Ring',
+    fields: [
+      length('innerRadius', 'Inner Radius', 0),
+      length('outerRadius', 'Outer Radius'),
+      segments('thetaSegments', 'Segments', 3),
+      segments('phiSegments', 'Rings'),
+      ...thetaRange,
+    ],
+  },
+  TorusGeometry: {
+    label: 'Torus',
+    fields: [
+      length('radius', 'Radius'),
+      length('tube', 'Tube Radius'),
+      segments('radialSegments', 'Tube Segments', 3),
+      segments('tubularSegments', 'Ring Segments', 3),
+      angle('arc', 'Arc', 0.01),
+    ],
+  },
+  // The knot winds p times around its axis and q times through its hole
+  TorusKnotGeometry: {
+    label: 'Torus Knot',
+    fields: [
+      length('radius', 'Radius'),
+      length('tube', 'Tube Radius'),
+      segments('tubularSegments', 'Length Segments', 3, 256),
+      segments('radialSegments', 'Tube Segments', 3, 32),
+      segments('p', 'Windings (p)', 1, 32),
+      segments('q', 'Loops (q)', 1, 32),
+    ],
+  },
+  CapsuleGeometry: {
+    label: 'Capsule',
+    fields: [
+      length('radius', 'Radius'),
+      length('length', 'Length', 0),
+      // Both caps use it, so it counts twice along the length
+      segments('capSegments', 'Cap Segments', 1, 64),
+      segments('radialSegments', 'Radial Segments', 3),
+    ],
+  },
+};
+
+// Brings edited values into range, so a typed value never builds a broken
+// geometry. Integer fields are rounded.
+export const clampGeometryParameters = (type: string, parameters: GeometryParameters): GeometryParameters => {
+  const clamped = { ...parameters };
+  PRIMITIVE_DEFINITIONS[type]?.fields.forEach(({ key, kind, min = -Infinity, max = Infinity }) => {
+    const value = clamped[key];
+    if (kind === 'boolean' || typeof value !== 'number') return;
+    clamped[key] = THREE.MathUtils.clamp(kind === 'integer' ? Math.round(value) : value, min, max);
+  });
+  return clamped;
+};
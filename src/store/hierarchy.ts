@@ -0,0 +1,74 @@
+import * as THREE from 'three';
+import type { Group, SceneObject } from './sceneStore';
+
+// Groups and objects form one tree. A group can sit in another group; an
+// object sits in a group or under another object, never both. Each node's
+// THREE object carries its transform relative to its parent.
+export type HierarchyNode = SceneObject | Group;
+
+interface Hierarchy {
+  objects: SceneObject[];
+  groups: Group[];
+}
+
+export const isGroupNode = (node: HierarchyNode): node is Group => 'objectIds' in node;
+
+export const getParentId = (node: HierarchyNode) =>
+  isGroupNode(node) ? node.parentId : node.parentId ?? node.groupId;
+
+export const findNode = ({ objects, groups }: Hierarchy, id: string): HierarchyNode | undefined =>
+  objects.find(obj => obj.id === id) ?? groups.find(group => group.id === id);
+
+export const findNodeByObject = ({ objects, groups }: Hierarchy, object: THREE.Object3D): HierarchyNode | undefined =>
+  objects.find(obj => obj.object === object) ?? groups.find(group => group.object === object);
+
+// The node followed by its parent, its parent's parent and so on
+export const getAncestry = (hierarchy: Hierarchy, node: HierarchyNode) => {
+  const chain = [node];
+  for (let parentId = getParentId(node); parentId; ) {
+    const parent = findNode(hierarchy, parentId);
+    // A missing parent or a cycle ends the chain rather than hanging
+    if (!parent || chain.includes(parent)) break;
+    chain.push(parent);
+    parentId = getParentId(parent);
+  }
+  return chain;
+};
+
+export const isDescendantOf = (hierarchy: Hierarchy, node: HierarchyNode, ancestorId: string) =>
+  getAncestry(hierarchy, node).some((entry, i) => i > 0 && entry.id === ancestorId);
+
+// Locking and hiding apply to everything below a node
+export const isNodeLocked = (hierarchy: Hierarchy, id: string) => {
+  const node = findNode(hierarchy, id);
+  return node ? getAncestry(hierarchy, node).some(entry => entry.locked) : false;
+};
+
+export const isNodeShown = (hierarchy: Hierarchy, id: string) => {
+  const node = findNode(hierarchy, id);
+  return node ? getAncestry(hierarchy, node).every(entry => entry.visible) : false;
+};
+
+export const getChildNodes = ({ objects, groups }: Hierarchy, parentId: string | undefined) => ({
+  groups: groups.filter(group => group.parentId === parentId),
+  objects: objects.filter(obj => (obj.parentId ?? obj.groupId) === parentId)
+});
+
+// World matrix of a node worked out from the store's tree. Hidden nodes
+// aren't in the scene graph, so their THREE parents can't be relied on.
+export const getNodeWorldMatrix = (hierarchy: Hierarchy, node: HierarchyNode): THREE.Matrix4 =>
+  getAncestry(hierarchy, node).reduceRight((matrix, entry) => {
+    entry.object.updateMatrix();
+    return matrix.multiply(entry.object.matrix);
+  }, new THREE.Matrix4());
+
+// Drops objects whose parent (or its parent, and so on) is also in the list,
+// so moving them all together doesn't move those twice. The objects must be
+// in the scene graph, as selected objects are.
+export const withoutDescendants = (objects: THREE.Object3D[]) =>
+  objects.filter(object => {
+    for (let parent = object.parent; parent; parent = parent.parent) {
+      if (objects.includes(parent)) return false;
+    }
+    return true;
+  });
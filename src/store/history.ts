@@ -0,0 +1,161 @@
+import * as THREE from 'three';
+import type { Group, SceneObject } from './sceneStore';
+import {
+  type LibraryMaterial,
+  type MaterialSettings,
+  applyMaterialSettings,
+  getEditableMaterial,
+  getMaterialSettings,
+  materialSettingsEqual
+} from './materials';
+import { type LightSettings, applyLightSettings, getLightSettings, lightSettingsEqual } from './lights';
+
+export const HISTORY_LIMIT = 100;
+
+interface ObjectSnapshot {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  scale: THREE.Vector3;
+  geometry: THREE.BufferGeometry | null;
+  vertices: Float32Array | null;
+  // Which material the mesh uses; the material's own values are kept apart,
+  // since several objects can share one
+  material: THREE.Material | THREE.Material[] | null;
+  light: LightSettings | null;
+}
+
+export interface SceneSnapshot {
+  objects: SceneObject[];
+  groups: Group[];
+  materialLibrary: LibraryMaterial[];
+  states: Map<THREE.Object3D, ObjectSnapshot>;
+  materials: Map<THREE.MeshStandardMaterial, MaterialSettings>;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  before: SceneSnapshot;
+  after: SceneSnapshot;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+const captureObject = (object: THREE.Object3D): ObjectSnapshot => {
+  const geometry = object instanceof THREE.Mesh ? object.geometry as THREE.BufferGeometry : null;
+  const positions = geometry?.attributes.position;
+
+  return {
+    position: object.position.clone(),
+    quaternion: object.quaternion.clone(),
+    scale: object.scale.clone(),
+    geometry,
+    vertices: positions ? new Float32Array(positions.array) : null,
+    material: object instanceof THREE.Mesh ? object.material : null,
+    light: object instanceof THREE.Light ? getLightSettings(object) : null,
+  };
+};
+
+type SnapshotSource = { objects: SceneObject[]; groups: Group[]; materialLibrary: LibraryMaterial[] };
+
+// Materials in use plus those in the library, which may have no users
+const captureMaterials = ({ objects, materialLibrary }: SnapshotSource) => {
+  const materials = [
+    ...objects.flatMap(({ object }) => getEditableMaterial(object) ?? []),
+    ...materialLibrary.map(({ material }) => material),
+  ];
+  return new Map(materials.map(material => [material, getMaterialSettings(material)]));
+};
+
+// Entries in `objects` and `groups` are replaced rather than mutated, so
+// keeping the arrays is enough for them. Everything that lives on the THREE
+// instances themselves (transforms, geometry buffers, material and light values) is
+// copied, since the editor changes those in place. Groups have THREE
+// instances too, for their transforms.
+export const captureSnapshot = (state: SnapshotSource): SceneSnapshot => ({
+  objects: state.objects,
+  groups: state.groups,
+  materialLibrary: state.materialLibrary,
+  states: new Map([...state.objects, ...state.groups].map(({ object }) => [object, captureObject(object)])),
+  materials: captureMaterials(state),
+});
+
+const arraysEqual = (a: Float32Array | null, b: Float32Array | null) => {
+  if (a === b) return true;
+  if (!a || !b || a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+};
+
+const objectSnapshotsEqual = (a: ObjectSnapshot, b: ObjectSnapshot) =>
+  a.position.equals(b.position) &&
+  a.quaternion.equals(b.quaternion) &&
+  a.scale.equals(b.scale) &&
+  a.geometry === b.geometry &&
+  a.material === b.material &&
+  (a.light === b.light || (a.light !== null && b.light !== null && lightSettingsEqual(a.light, b.light))) &&
+  arraysEqual(a.vertices, b.vertices);
+
+export const snapshotsEqual = (a: SceneSnapshot, b: SceneSnapshot) => {
+  if (a.objects.length !== b.objects.length || a.objects.some((obj, i) => obj !== b.objects[i])) {
+    return false;
+  }
+  if (a.groups.length !== b.groups.length || a.groups.some((group, i) => group !== b.groups[i])) {
+    return false;
+  }
+  if (a.materialLibrary !== b.materialLibrary) return false;
+  for (const [object, snapshot] of a.states) {
+    const other = b.states.get(object);
+    if (!other || !objectSnapshotsEqual(snapshot, other)) return false;
+  }
+  for (const [material, settings] of a.materials) {
+    const other = b.materials.get(material);
+    if (!other || !materialSettingsEqual(settings, other)) return false;
+  }
+  return true;
+};
+
+const restoreObject = (object: THREE.Object3D, snapshot: ObjectSnapshot) => {
+  object.position.copy(snapshot.position);
+  object.quaternion.copy(snapshot.quaternion);
+  object.scale.copy(snapshot.scale);
+
+  if (object instanceof THREE.Mesh && snapshot.geometry) {
+    object.geometry = snapshot.geometry;
+    const positions = snapshot.geometry.attributes.position;
+    if (snapshot.vertices && positions.array.length === snapshot.vertices.length) {
+      (positions.array as Float32Array).set(snapshot.vertices);
+      positions.needsUpdate = true;
+      snapshot.geometry.computeVertexNormals();
+      snapshot.geometry.computeBoundingSphere();
+    }
+  }
+
+  if (object instanceof THREE.Mesh && snapshot.material) {
+    object.material = snapshot.material;
+  }
+  if (object instanceof THREE.Light && snapshot.light) {
+    applyLightSettings(object, snapshot.light);
+  }
+};
+
+// Applies the THREE side of a snapshot and returns the store slice to set.
+export const restoreSnapshot = (snapshot: SceneSnapshot) => {
+  snapshot.states.forEach((objectSnapshot, object) => restoreObject(object, objectSnapshot));
+  // Only changed materials are touched, as applying settings recompiles them
+  snapshot.materials.forEach((settings, material) => {
+    if (!materialSettingsEqual(getMaterialSettings(material), settings)) {
+      applyMaterialSettings(material, settings);
+    }
+  });
+  return {
+    objects: snapshot.objects,
+    groups: snapshot.groups,
+    materialLibrary: snapshot.materialLibrary,
+  };
+};
@@ -0,0 +1,157 @@
+// A key combination as bindings store it: modifiers in a fixed order, then
+// the key's KeyboardEvent code, e.g. 'Ctrl+Shift+KeyZ'. Cmd counts as Ctrl.
+export type KeyCombo = string;
+
+export type ShortcutCategory = 'Edit' | 'Tools' | 'View';
+
+const action = <Id extends string>(id: Id, category: ShortcutCategory, label: string, keys: KeyCombo[]) =>
+  ({ id, category, label, keys });
+
+const BOOKMARK_SLOTS = [1, 2, 3, 4, 5, 6, 7, 8, 9] as const;
+
+// Every action that can have a shortcut, with its default keys. Components
+// supply what the actions do while they are mounted.
+export const SHORTCUT_ACTIONS = [
+  action('undo', 'Edit', 'Undo', ['Ctrl+KeyZ']),
+  action('redo', 'Edit', 'Redo', ['Ctrl+Shift+KeyZ', 'Ctrl+KeyY']),
+  action('delete', 'Edit', 'Delete Selected', ['Delete', 'Backspace']),
+  action('hide', 'Edit', 'Hide Selected', ['KeyH']),
+  action('duplicate', 'Edit', 'Duplicate', ['Shift+KeyD']),
+  action('linkedDuplicate', 'Edit', 'Linked Duplicate', ['Alt+KeyD']),
+  action('translate', 'Tools', 'Move Tool', ['KeyG']),
+  action('rotate', 'Tools', 'Rotate Tool', ['KeyR']),
+  action('scale', 'Tools', 'Scale Tool', ['KeyS']),
+  action('vertexMode', 'Tools', 'Edit Vertices', ['Digit1']),
+  action('edgeMode', 'Tools', 'Edit Edges', ['Digit2']),
+  action('faceMode', 'Tools', 'Edit Faces', ['Digit3']),
+  action('frameSelection', 'View', 'Frame Selection', ['KeyF']),
+  action('frameAll', 'View', 'Frame All', ['KeyA', 'Home']),
+  action('viewPerspective', 'View', 'Perspective View', ['Numpad0']),
+  action('viewFront', 'View', 'Front View', ['Numpad1']),
+  action('viewBack', 'View', 'Back View', ['Ctrl+Numpad1']),
+  action('viewRight', 'View', 'Right View', ['Numpad3']),
+  action('viewLeft', 'View', 'Left View', ['Ctrl+Numpad3']),
+  action('viewTop', 'View', 'Top View', ['Numpad7']),
+  action('viewBottom', 'View', 'Bottom View', ['Ctrl+Numpad7']),
+  action('toggleMaximize', 'View', 'Maximize View', ['Ctrl+Space']),
+  ...BOOKMARK_SLOTS.map(slot => action(`bookmark${slot}`, 'View', `Go to View ${slot}`, [`Ctrl+Digit${slot}`]))
+];
+
+export type ShortcutId = (typeof SHORTCUT_ACTIONS)[number]['id'];
+export type KeyBindings = Record<ShortcutId, KeyCombo[]>;
+
+export const getDefaultKeyBindings = () =>
+  Object.fromEntries(SHORTCUT_ACTIONS.map(({ id, keys }) => [id, keys])) as KeyBindings;
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift'];
+
+// The combination a key press makes, or null while only modifiers are down
+export const getKeyCombo = (event: KeyboardEvent): KeyCombo | null => {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+  return [
+    (event.ctrlKey || event.metaKey) && 'Ctrl',
+    event.altKey && 'Alt',
+    event.shiftKey && 'Shift',
+    event.code
+  ].filter(Boolean).join('+');
+};
+
+const formatKeyCode = (code: string) => {
+  if (/^(Key|Digit)./.test(code)) return code.replace(/^(Key|Digit)/, '');
+  if (code.startsWith('Numpad')) return `Num ${code.slice('Numpad'.length)}`;
+  if (code.startsWith('Arrow')) return code.slice('Arrow'.length);
+  return code;
+};
+
+// 'Ctrl+Shift+KeyZ' reads 'Ctrl+Shift+Z'
+export const formatKeyCombo = (combo: KeyCombo) => {
+  const parts = combo.split('+');
+  return [...parts.slice(0, -1), formatKeyCode(parts[parts.length - 1])].join('+');
+};
+
+// Appends an action's first shortcut to a button's tooltip
+export const withShortcut = (title: string, keys: KeyCombo[]) =>
+  keys.length > 0 ? `${title} (${formatKeyCombo(keys[0])})` : title;
+
+// Combinations bound to more than one action. Pressing one runs the first
+// of its actions in SHORTCUT_ACTIONS order that is available.
+export const findKeyConflicts = (bindings: KeyBindings) => {
+  const actionsByCombo = new Map<KeyCombo, ShortcutId[]>();
+  SHORTCUT_ACTIONS.forEach(({ id }) => {
+    bindings[id].forEach(combo => actionsByCombo.set(combo, [...(actionsByCombo.get(combo) ?? []), id]));
+  });
+  return new Map([...actionsByCombo].filter(([, ids]) => ids.length > 1));
+};
+
+// The action other than `except` a combination is bound to, if any
+export const findKeyBinding = (bindings: KeyBindings, combo: KeyCombo, except?: ShortcutId) =>
+  SHORTCUT_ACTIONS.find(({ id }) => id !== except && bindings[id].includes(combo));
+
+const STORAGE_KEY = 'keymap';
+
+// Only actions rebound away from their defaults are saved, so later changes
+// to the defaults reach everyone else
+export const saveKeyBindings = (bindings: KeyBindings) => {
+  const defaults = getDefaultKeyBindings();
+  const changed = SHORTCUT_ACTIONS.filter(({ id }) => bindings[id].join() !== defaults[id].join());
+  try {
+    if (changed.length === 0) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(changed.map(({ id }) => [id, bindings[id]]))));
+    }
+  } catch {
+    // Storage can be full or disabled; the keymap still applies this session
+  }
+};
+
+// Saved bindings over the defaults, skipping actions that no longer exist
+// and anything malformed
+export const loadKeyBindings = (): KeyBindings => {
+  const bindings = getDefaultKeyBindings();
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, unknown>;
+    SHORTCUT_ACTIONS.forEach(({ id }) => {
+      const keys = saved[id];
+      if (Array.isArray(keys) && keys.every(key => typeof key === 'string')) {
+        bindings[id] = keys;
+      }
+    });
+  } catch {
+    // Fall back to the defaults
+  }
+  return bindings;
+};
+
+// Returning false lets the key press through, for actions with nothing to
+// do right now
+export type ShortcutHandler = () => boolean | void;
+
+const handlers = new Map<ShortcutId, ShortcutHandler>();
+
+// Components call this from an effect and return the cleanup it gives back
+export const registerShortcutHandlers = (actions: Partial<Record<ShortcutId, ShortcutHandler>>) => {
+  const entries = Object.entries(actions) as Array<[ShortcutId, ShortcutHandler]>;
+  entries.forEach(([id, handler]) => handlers.set(id, handler));
+  return () => entries.forEach(([id, handler]) => {
+    if (handlers.get(id) === handler) handlers.delete(id);
+  });
+};
+
+// Runs the action a key press is bound to. Typing in a field is left alone.
+export const handleShortcutKeyDown = (event: KeyboardEvent, bindings: KeyBindings) => {
+  const target = event.target as HTMLElement;
+  if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) {
+    return;
+  }
+  const combo = getKeyCombo(event);
+  if (!combo) return;
+
+  for (const { id } of SHORTCUT_ACTIONS) {
+    const handler = handlers.get(id);
+    if (handler && bindings[id].includes(combo) && handler() !== false) {
+      event.preventDefault();
+      return;
+    }
+  }
+};
@@ -0,0 +1,152 @@
+import * as THREE from 'three';
+import { RectAreaLightUniformsLib } from 'three/examples/jsm/lights/RectAreaLightUniformsLib.js';
+
+export type LightType = 'point' | 'spot' | 'directional' | 'hemisphere' | 'area';
+
+export const LIGHT_LABELS: Record<LightType, string> = {
+  point: 'Point Light',
+  spot: 'Spot Light',
+  directional: 'Directional Light',
+  hemisphere: 'Hemisphere Light',
+  area: 'Area Light',
+};
+
+// Everything the light panel edits. Each type uses only some of the values;
+// the others keep their defaults.
+export interface LightSettings {
+  color: string;
+  intensity: number;
+  // Point and spot lights: how far the light reaches (0 is unlimited) and
+  // how fast it fades
+  distance: number;
+  decay: number;
+  // Spot lights, in radians
+  angle: number;
+  penumbra: number;
+  // Hemisphere lights: the color from below
+  groundColor: string;
+  // Area lights
+  width: number;
+  height: number;
+  castShadow: boolean;
+}
+
+// The light types that can cast shadows
+export const SHADOW_LIGHT_TYPES: LightType[] = ['point', 'spot', 'directional'];
+
+export const getLightType = (light: THREE.Light): LightType | null => {
+  if (light instanceof THREE.SpotLight) return 'spot';
+  if (light instanceof THREE.PointLight) return 'point';
+  if (light instanceof THREE.DirectionalLight) return 'directional';
+  if (light instanceof THREE.HemisphereLight) return 'hemisphere';
+  if (light instanceof THREE.RectAreaLight) return 'area';
+  return null;
+};
+
+// Spot and directional lights shine at their target. Keeping the target as a
+// child one unit down the light's -Z axis makes them point the way they are
+// rotated, as glTF expects. Cloning doesn't keep the target as a child, so
+// copies call this again.
+export const attachLightTarget = (light: THREE.Object3D) => {
+  if (light instanceof THREE.SpotLight || light instanceof THREE.DirectionalLight) {
+    light.target.position.set(0, 0, -1);
+    light.add(light.target);
+  }
+  return light;
+};
+
+let areaLightsReady = false;
+
+export const createLight = (type: LightType): THREE.Light => {
+  switch (type) {
+    case 'point': {
+      const light = new THREE.PointLight(0xffffff, 10);
+      light.position.set(0, 2, 0);
+      return light;
+    }
+    case 'spot': {
+      const light = new THREE.SpotLight(0xffffff, 20, 0, Math.PI / 6, 0.2);
+      light.position.set(0, 4, 0);
+      light.rotation.x = -Math.PI / 2;
+      return attachLightTarget(light) as THREE.SpotLight;
+    }
+    case 'directional': {
+      const light = new THREE.DirectionalLight(0xffffff, 2);
+      light.position.set(0, 5, 0);
+      light.rotation.x = -Math.PI / 2;
+      return attachLightTarget(light) as THREE.DirectionalLight;
+    }
+    case 'hemisphere': {
+      const light = new THREE.HemisphereLight(0xffffff, 0x444444, 1);
+      light.position.set(0, 5, 0);
+      return light;
+    }
+    case 'area': {
+      // Standard materials need extra shader data to be lit by area lights
+      if (!areaLightsReady) {
+        RectAreaLightUniformsLib.init();
+        areaLightsReady = true;
+      }
+      const light = new THREE.RectAreaLight(0xffffff, 5, 2, 1);
+      light.position.set(0, 3, 0);
+      light.rotation.x = -Math.PI / 2;
+      return light;
+    }
+  }
+};
+
+export const getLightSettings = (light: THREE.Light): LightSettings => ({
+  color: '#' + light.color.getHexString(),
+  intensity: light.intensity,
+  distance: light instanceof THREE.PointLight || light instanceof THREE.SpotLight ? light.distance : 0,
+  decay: light instanceof THREE.PointLight || light instanceof THREE.SpotLight ? light.decay : 2,
+  angle: light instanceof THREE.SpotLight ? light.angle : Math.PI / 6,
+  penumbra: light instanceof THREE.SpotLight ? light.penumbra : 0,
+  groundColor: light instanceof THREE.HemisphereLight ? '#' + light.groundColor.getHexString() : '#444444',
+  width: light instanceof THREE.RectAreaLight ? light.width : 2,
+  height: light instanceof THREE.RectAreaLight ? light.height : 1,
+  castShadow: light.castShadow,
+});
+
+export const applyLightSettings = (light: THREE.Light, settings: Partial<LightSettings>) => {
+  if (settings.color !== undefined) light.color.setStyle(settings.color);
+  if (settings.intensity !== undefined) light.intensity = settings.intensity;
+  if (light instanceof THREE.PointLight || light instanceof THREE.SpotLight) {
+    if (settings.distance !== undefined) light.distance = settings.distance;
+    if (settings.decay !== undefined) light.decay = settings.decay;
+  }
+  if (light instanceof THREE.SpotLight) {
+    if (settings.angle !== undefined) light.angle = settings.angle;
+    if (settings.penumbra !== undefined) light.penumbra = settings.penumbra;
+  }
+  if (light instanceof THREE.HemisphereLight && settings.groundColor !== undefined) {
+    light.groundColor.setStyle(settings.groundColor);
+  }
+  if (light instanceof THREE.RectAreaLight) {
+    if (settings.width !== undefined) light.width = settings.width;
+    if (settings.height !== undefined) light.height = settings.height;
+  }
+  const type = getLightType(light);
+  if (settings.castShadow !== undefined && type && SHADOW_LIGHT_TYPES.includes(type)) {
+    light.castShadow = settings.castShadow;
+  }
+  return light;
+};
+
+export const lightSettingsEqual = (a: LightSettings, b: LightSettings) =>
+  (Object.keys(a) as Array<keyof LightSettings>).every(key => a[key] === b[key]);
+
+const PICK_RADIUS = 0.25;
+const pickSphere = new THREE.Sphere();
+const pickPoint = new THREE.Vector3();
+
+// Lights have no surface to click, so they are picked by a small sphere
+// around their position. Used as the light's raycast.
+export function raycastLight(this: THREE.Light, raycaster: THREE.Raycaster, intersects: THREE.Intersection[]) {
+  pickSphere.set(this.getWorldPosition(pickSphere.center), PICK_RADIUS);
+  if (!raycaster.ray.intersectSphere(pickSphere, pickPoint)) return;
+  const distance = raycaster.ray.origin.distanceTo(pickPoint);
+  if (distance >= raycaster.near && distance <= raycaster.far) {
+    intersects.push({ distance, point: pickPoint.clone(), object: this });
+  }
+}
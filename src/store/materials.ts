@@ -0,0 +1,80 @@
+import * as THREE from 'three';
+
+export const DEFAULT_MATERIAL_COLOR = 0x44aa88;
+
+export type MaterialSide = 'front' | 'back' | 'double';
+
+// Everything the material panel edits, in a form that is easy to compare,
+// copy and save
+export interface MaterialSettings {
+  color: string;
+  opacity: number;
+  roughness: number;
+  metalness: number;
+  emissive: string;
+  emissiveIntensity: number;
+  side: MaterialSide;
+  flatShading: boolean;
+  wireframe: boolean;
+}
+
+// A named material in the scene's library. Objects using it hold this very
+// instance, so editing it changes all of them.
+export interface LibraryMaterial {
+  id: string;
+  name: string;
+  material: THREE.MeshStandardMaterial;
+}
+
+const SIDES: Record<MaterialSide, THREE.Side> = {
+  front: THREE.FrontSide,
+  back: THREE.BackSide,
+  double: THREE.DoubleSide,
+};
+
+const getSideName = (side: THREE.Side) =>
+  (Object.keys(SIDES) as MaterialSide[]).find(name => SIDES[name] === side) ?? 'front';
+
+// The material the editor works with on an object: a single standard
+// material on a mesh. Per-face materials (boolean results) have none.
+export const getEditableMaterial = (object: THREE.Object3D) => {
+  if (!(object instanceof THREE.Mesh)) return null;
+  const material = object.material;
+  return material instanceof THREE.MeshStandardMaterial ? material : null;
+};
+
+export const getMaterialSettings = (material: THREE.MeshStandardMaterial): MaterialSettings => ({
+  color: '#' + material.color.getHexString(),
+  opacity: material.opacity,
+  roughness: material.roughness,
+  metalness: material.metalness,
+  emissive: '#' + material.emissive.getHexString(),
+  emissiveIntensity: material.emissiveIntensity,
+  side: getSideName(material.side),
+  flatShading: material.flatShading,
+  wireframe: material.wireframe,
+});
+
+export const applyMaterialSettings = (material: THREE.MeshStandardMaterial, settings: Partial<MaterialSettings>) => {
+  if (settings.color !== undefined) material.color.setStyle(settings.color);
+  if (settings.opacity !== undefined) {
+    material.opacity = settings.opacity;
+    material.transparent = settings.opacity < 1;
+  }
+  if (settings.roughness !== undefined) material.roughness = settings.roughness;
+  if (settings.metalness !== undefined) material.metalness = settings.metalness;
+  if (settings.emissive !== undefined) material.emissive.setStyle(settings.emissive);
+  if (settings.emissiveIntensity !== undefined) material.emissiveIntensity = settings.emissiveIntensity;
+  if (settings.side !== undefined) material.side = SIDES[settings.side];
+  if (settings.flatShading !== undefined) material.flatShading = settings.flatShading;
+  if (settings.wireframe !== undefined) material.wireframe = settings.wireframe;
+  // Side, flat shading and transparency change the compiled shader
+  material.needsUpdate = true;
+  return material;
+};
+
+export const createMaterial = (settings: Partial<MaterialSettings> = {}) =>
+  applyMaterialSettings(new THREE.MeshStandardMaterial({ color: DEFAULT_MATERIAL_COLOR }), settings);
+
+export const materialSettingsEqual = (a: MaterialSettings, b: MaterialSettings) =>
+  (Object.keys(a) as Array<keyof MaterialSettings>).every(key => a[key] === b[key]);
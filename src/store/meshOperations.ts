@@ -0,0 +1,450 @@
+import * as THREE from 'three';
+import {
+  getFaceCount,
+  getFaceMaterialIndex,
+  getFaceVertexIndices,
+  getFacesNormal,
+  weldKey
+} from './meshUtils';
+
+// Collects the vertices and triangles of a new indexed geometry. It starts
+// with every vertex of the source geometry; vertices added later copy all
+// attributes of a source vertex, optionally at a different position.
+const createGeometryBuilder = (source: THREE.BufferGeometry) => {
+  const attributeNames = Object.keys(source.attributes);
+  const data: Record<string, number[]> = {};
+  const indices: number[] = [];
+  const materialIndices: number[] = [];
+  let vertexCount = source.attributes.position.count;
+
+  attributeNames.forEach(name => {
+    const attribute = source.attributes[name];
+    const values: number[] = [];
+    for (let i = 0; i < attribute.count; i++) {
+      for (let k = 0; k < attribute.itemSize; k++) {
+        values.push(attribute.getComponent(i, k));
+      }
+    }
+    data[name] = values;
+  });
+
+  const addVertex = (sourceIndex: number, position?: THREE.Vector3) => {
+    attributeNames.forEach(name => {
+      const attribute = source.attributes[name];
+      for (let k = 0; k < attribute.itemSize; k++) {
+        data[name].push(attribute.getComponent(sourceIndex, k));
+      }
+    });
+    if (position) {
+      data.position.splice(data.position.length - 3, 3, position.x, position.y, position.z);
+    }
+    return vertexCount++;
+  };
+
+  const addTriangle = (a: number, b: number, c: number, materialIndex = 0) => {
+    indices.push(a, b, c);
+    materialIndices.push(materialIndex);
+  };
+
+  const build = () => {
+    const geometry = new THREE.BufferGeometry();
+    attributeNames.forEach(name => {
+      const attribute = source.attributes[name];
+      geometry.setAttribute(name, new THREE.Float32BufferAttribute(data[name], attribute.itemSize, attribute.normalized));
+    });
+    geometry.setIndex(indices);
+
+    // Rebuild material groups from runs of triangles sharing a material
+    if (source.groups.length > 0) {
+      materialIndices.forEach((materialIndex, triangle) => {
+        const last = geometry.groups[geometry.groups.length - 1];
+        if (last && last.materialIndex === materialIndex) {
+          last.count += 3;
+        } else {
+          geometry.addGroup(triangle * 3, 3, materialIndex);
+        }
+      });
+    }
+
+    geometry.computeVertexNormals();
+    geometry.computeBoundingBox();
+    geometry.computeBoundingSphere();
+    return geometry;
+  };
+
+  return { addVertex, addTriangle, build };
+};
+
+const getVertex = (geometry: THREE.BufferGeometry, index: number) =>
+  new THREE.Vector3().fromBufferAttribute(geometry.attributes.position, index);
+
+// Extrudes the given faces by `distance` along their averaged normal. The
+// faces keep their indices and become the cap of the extrusion; side walls
+// are appended after all existing faces, with their own vertices so they
+// shade flat.
+export const extrudeFaces = (geometry: THREE.BufferGeometry, faces: number[], distance: number) => {
+  const positions = geometry.attributes.position;
+  const builder = createGeometryBuilder(geometry);
+  const selected = new Set(faces);
+  const offset = getFacesNormal(geometry, faces).multiplyScalar(distance);
+
+  // Edges used by only one selected face lie on the region's boundary
+  const edgeKey = (a: number, b: number) => [weldKey(positions, a), weldKey(positions, b)].sort().join('|');
+  const edgeUses = new Map<string, number>();
+  faces.forEach(face => {
+    const [a, b, c] = getFaceVertexIndices(geometry, face);
+    [[a, b], [b, c], [c, a]].forEach(([from, to]) => {
+      const key = edgeKey(from, to);
+      edgeUses.set(key, (edgeUses.get(key) || 0) + 1);
+    });
+  });
+
+  const capVertices = new Map<number, number>();
+  const getCapVertex = (index: number) => {
+    if (!capVertices.has(index)) {
+      capVertices.set(index, builder.addVertex(index, getVertex(geometry, index).add(offset)));
+    }
+    return capVertices.get(index) as number;
+  };
+
+  for (let face = 0; face < getFaceCount(geometry); face++) {
+    const [a, b, c] = getFaceVertexIndices(geometry, face);
+    const materialIndex = getFaceMaterialIndex(geometry, face);
+    if (selected.has(face)) {
+      builder.addTriangle(getCapVertex(a), getCapVertex(b), getCapVertex(c), materialIndex);
+    } else {
+      builder.addTriangle(a, b, c, materialIndex);
+    }
+  }
+
+  faces.forEach(face => {
+    const [a, b, c] = getFaceVertexIndices(geometry, face);
+    const materialIndex = getFaceMaterialIndex(geometry, face);
+
+    [[a, b], [b, c], [c, a]].forEach(([from, to]) => {
+      if (edgeUses.get(edgeKey(from, to)) !== 1) return;
+
+      // Following the face's winding keeps the wall facing outwards
+      const bottomFrom = builder.addVertex(from);
+      const bottomTo = builder.addVertex(to);
+      const topFrom = builder.addVertex(from, getVertex(geometry, from).add(offset));
+      const topTo = builder.addVertex(to, getVertex(geometry, to).add(offset));
+      builder.addTriangle(bottomFrom, bottomTo, topTo, materialIndex);
+      builder.addTriangle(bottomFrom, topTo, topFrom, materialIndex);
+    });
+  });
+
+  return builder.build();
+};
+
+// A triangle seen from one of its corners: `corners` is rotated so the
+// corner comes first, `next` and `prev` are the welded vertices that follow
+// it in winding order.
+interface FanTriangle {
+  face: number;
+  corners: [number, number, number];
+  next: number;
+  prev: number;
+}
+
+// Edges between faces that meet at more than about a degree are treated as
+// real edges of the model; flatter ones are just triangulation diagonals.
+const CREASE_COS = Math.cos(THREE.MathUtils.degToRad(1));
+
+const quadraticBezier = (start: THREE.Vector3, control: THREE.Vector3, end: THREE.Vector3, t: number) =>
+  start.clone().multiplyScalar((1 - t) * (1 - t))
+    .addScaledVector(control, 2 * (1 - t) * t)
+    .addScaledVector(end, t * t);
+
+// Bevels the given edges (pairs of vertex indices) with a profile of
+// `segments` steps that bulges towards the original edge. Each end of a
+// beveled edge is cut back by `width` on the faces around it: vertices are
+// moved into the faces or slid along unbeveled edges, and the holes this
+// leaves at corners are filled. Edges must have two faces and closed fans at
+// both ends; others are left alone.
+export const bevelEdges = (
+  geometry: THREE.BufferGeometry,
+  edges: Array<[number, number]>,
+  width: number,
+  segments: number
+) => {
+  const positions = geometry.attributes.position;
+  const builder = createGeometryBuilder(geometry);
+  const faceCount = getFaceCount(geometry);
+
+  // Topology on welded vertices, so split vertices count as one
+  const weldIds = new Map<string, number>();
+  const weldOf: number[] = [];
+  const weldPositions: THREE.Vector3[] = [];
+  for (let i = 0; i < positions.count; i++) {
+    const key = weldKey(positions, i);
+    if (!weldIds.has(key)) {
+      weldIds.set(key, weldPositions.length);
+      weldPositions.push(new THREE.Vector3().fromBufferAttribute(positions, i));
+    }
+    weldOf.push(weldIds.get(key) as number);
+  }
+
+  const edgeKey = (a: number, b: number) => (a < b ? `${a}_${b}` : `${b}_${a}`);
+  const triangles = Array.from({ length: faceCount }, (_, face) => getFaceVertexIndices(geometry, face));
+  const faceNormals = triangles.map(([a, b, c]) =>
+    new THREE.Triangle(weldPositions[weldOf[a]], weldPositions[weldOf[b]], weldPositions[weldOf[c]])
+      .getNormal(new THREE.Vector3())
+  );
+
+  const vertexFaces = new Map<number, number[]>();
+  const edgeFaces = new Map<string, number[]>();
+  triangles.forEach((corners, face) => {
+    const welds = corners.map(corner => weldOf[corner]);
+    welds.forEach(w => vertexFaces.set(w, [...(vertexFaces.get(w) || []), face]));
+    [[welds[0], welds[1]], [welds[1], welds[2]], [welds[2], welds[0]]].forEach(([a, b]) => {
+      const key = edgeKey(a, b);
+      edgeFaces.set(key, [...(edgeFaces.get(key) || []), face]);
+    });
+  });
+
+  const rotateTo = (face: number, weld: number): FanTriangle => {
+    const c = triangles[face];
+    const k = c.findIndex(corner => weldOf[corner] === weld);
+    const corners: [number, number, number] = [c[k], c[(k + 1) % 3], c[(k + 2) % 3]];
+    return { face, corners, next: weldOf[corners[1]], prev: weldOf[corners[2]] };
+  };
+
+  // Triangles around a vertex in winding order, or null if the fan is open
+  const orderFan = (weld: number) => {
+    const fan = (vertexFaces.get(weld) || []).map(face => rotateTo(face, weld));
+    if (fan.length === 0) return null;
+
+    const ordered = [fan[0]];
+    const used = new Set([fan[0]]);
+    while (ordered.length < fan.length) {
+      const last = ordered[ordered.length - 1];
+      const following = fan.find(t => !used.has(t) && t.prev === last.next);
+      if (!following) return null;
+      ordered.push(following);
+      used.add(following);
+    }
+    return ordered[0].prev === ordered[ordered.length - 1].next ? ordered : null;
+  };
+
+  const selected = new Set<string>();
+  edges.forEach(([a, b]) => {
+    const key = edgeKey(weldOf[a], weldOf[b]);
+    if (weldOf[a] !== weldOf[b] && edgeFaces.get(key)?.length === 2) {
+      selected.add(key);
+    }
+  });
+
+  const fans = new Map<number, FanTriangle[]>();
+  selected.forEach(key => {
+    const ends = key.split('_').map(Number);
+    const endFans = ends.map(weld => fans.get(weld) || orderFan(weld));
+    if (endFans.some(fan => !fan)) {
+      selected.delete(key);
+      return;
+    }
+    ends.forEach((weld, i) => fans.set(weld, endFans[i] as FanTriangle[]));
+  });
+
+  // Where each affected corner moves to, keyed by welded vertex and face
+  const replacements = new Map<string, { id: number; position: THREE.Vector3 }>();
+  const fillers: Array<{ points: [THREE.Vector3, THREE.Vector3, THREE.Vector3]; source: number; face: number }> = [];
+  const patches: Array<{ points: THREE.Vector3[]; center: THREE.Vector3; source: number; face: number }> = [];
+  let nextPointId = 0;
+
+  fans.forEach((fan, weld) => {
+    if (!fan.some(t => selected.has(edgeKey(weld, t.prev)))) return;
+
+    const origin = weldPositions[weld];
+    const direction = (other: number) => weldPositions[other].clone().sub(origin).normalize();
+    // Direction perpendicular to an edge, within the face, pointing into it
+    const inward = (edgeEnd: number, other: number) => {
+      const u = direction(edgeEnd);
+      const v = weldPositions[other].clone().sub(origin);
+      return v.addScaledVector(u, -v.dot(u)).normalize();
+    };
+    // Distance to slide along an unbeveled edge to be `width` away from a beveled one
+    const slideDistance = (realEnd: number, beveled: THREE.Vector3) => {
+      const sine = direction(realEnd).cross(beveled).length();
+      const distance = sine > 1e-4 ? width / sine : width;
+      return Math.min(distance, 0.9 * weldPositions[realEnd].distanceTo(origin));
+    };
+
+    // Start right after a beveled edge and split the fan into sectors at each one
+    const start = fan.findIndex(t => selected.has(edgeKey(weld, t.prev)));
+    const rotated = [...fan.slice(start), ...fan.slice(0, start)];
+    const sectors: FanTriangle[][] = [];
+    let current: FanTriangle[] = [];
+    rotated.forEach(t => {
+      current.push(t);
+      if (selected.has(edgeKey(weld, t.next))) {
+        sectors.push(current);
+        current = [];
+      }
+    });
+
+    const sectorEnds = sectors.map(sector => {
+      const first = sector[0];
+      const last = sector[sector.length - 1];
+      // Creased edges inside the sector, as the index of the triangle before them
+      const creases: number[] = [];
+      for (let i = 0; i < sector.length - 1; i++) {
+        if (faceNormals[sector[i].face].dot(faceNormals[sector[i + 1].face]) < CREASE_COS) {
+          creases.push(i);
+        }
+      }
+
+      const startDirection = direction(first.prev);
+      const endDirection = direction(last.next);
+      let startPoint: THREE.Vector3;
+      let endPoint: THREE.Vector3;
+
+      if (sectors.length === 1 && creases.length < 2) {
+        // A lone beveled edge ending inside a smooth area tapers to a point
+        startPoint = origin.clone();
+        endPoint = startPoint;
+      } else if (creases.length === 0) {
+        // Meet point of the two offset edges within the face
+        const startOffset = origin.clone().addScaledVector(inward(first.prev, first.next), width);
+        const endOffset = origin.clone().addScaledVector(inward(last.next, last.prev), width);
+        const startLine = new THREE.Line3(startOffset, startOffset.clone().add(startDirection));
+        const endLine = new THREE.Line3(endOffset, endOffset.clone().add(endDirection));
+        if (startDirection.clone().cross(endDirection).lengthSq() < 1e-8) {
+          startPoint = startOffset.add(endOffset).multiplyScalar(0.5);
+        } else {
+          const denominator = 1 - startDirection.dot(endDirection) ** 2;
+          const w0 = startOffset.clone().sub(endOffset);
+          const s = (startDirection.dot(endDirection) * endDirection.dot(w0) - startDirection.dot(w0)) / denominator;
+          const onStart = startLine.at(s, new THREE.Vector3());
+          const onEnd = endLine.closestPointToPoint(onStart, false, new THREE.Vector3());
+          startPoint = onStart.add(onEnd).multiplyScalar(0.5);
+        }
+        endPoint = startPoint;
+      } else if (creases.length === 1) {
+        const realEnd = sector[creases[0]].next;
+        const distance = (slideDistance(realEnd, startDirection) + slideDistance(realEnd, endDirection)) / 2;
+        startPoint = origin.clone().addScaledVector(direction(realEnd), distance);
+        endPoint = startPoint;
+      } else {
+        const firstReal = sector[creases[0]].next;
+        const lastReal = sector[creases[creases.length - 1]].next;
+        startPoint = origin.clone().addScaledVector(direction(firstReal), slideDistance(firstReal, startDirection));
+        endPoint = origin.clone().addScaledVector(direction(lastReal), slideDistance(lastReal, endDirection));
+      }
+
+      const startId = nextPointId++;
+      const endId = endPoint === startPoint ? startId : nextPointId++;
+      const lastCrease = creases[creases.length - 1];
+      sector.forEach((t, i) => {
+        const useEnd = creases.length >= 2 && i > lastCrease;
+        replacements.set(`${weld}:${t.face}`, {
+          id: useEnd ? endId : startId,
+          position: useEnd ? endPoint : startPoint
+        });
+      });
+
+      // The faces between the outer creases lost their corner; close the gap,
+      // winding it against the edges it shares with its two neighbours
+      if (creases.length >= 2) {
+        const far = sector[lastCrease];
+        fillers.push({
+          points: [weldPositions[far.next], startPoint, endPoint],
+          source: far.corners[0],
+          face: far.face
+        });
+      }
+
+      return { startPoint, endPoint, split: endPoint !== startPoint };
+    });
+
+    // Hole left around the vertex, bounded by the edge profiles and sector gaps
+    const loop: THREE.Vector3[] = [];
+    sectorEnds.forEach((sectorEnd, i) => {
+      const before = sectorEnds[(i + sectorEnds.length - 1) % sectorEnds.length];
+      for (let j = 1; j <= segments; j++) {
+        loop.push(quadraticBezier(before.endPoint, origin, sectorEnd.startPoint, j / segments));
+      }
+      if (sectorEnd.split) {
+        loop.push(sectorEnd.endPoint);
+      }
+    });
+
+    const sharedProfile = sectors.length === 2 && !sectorEnds.some(sectorEnd => sectorEnd.split);
+    const distinct = loop.filter((point, i) => point.distanceToSquared(loop[(i + 1) % loop.length]) > 1e-12);
+    if (!sharedProfile && distinct.length >= 3) {
+      const center = distinct.reduce((sum, point) => sum.add(point), new THREE.Vector3()).divideScalar(distinct.length);
+      if (sectors.length >= 3 && segments > 1) {
+        center.lerp(origin, 0.5);
+      }
+      patches.push({ points: distinct, center, source: fan[0].corners[0], face: fan[0].face });
+    }
+  });
+
+  const cornerVertices = new Map<string, number>();
+  const resolveCorner = (face: number, corner: number) => {
+    const replacement = replacements.get(`${weldOf[corner]}:${face}`);
+    if (!replacement) return corner;
+
+    const key = `${corner}|${replacement.id}`;
+    if (!cornerVertices.has(key)) {
+      cornerVertices.set(key, builder.addVertex(corner, replacement.position));
+    }
+    return cornerVertices.get(key) as number;
+  };
+
+  // Adds a triangle with vertices of its own, skipping degenerate ones
+  const addPointTriangle = (
+    points: [THREE.Vector3, THREE.Vector3, THREE.Vector3],
+    source: number,
+    materialIndex: number
+  ) => {
+    if (new THREE.Triangle(...points).getArea() < 1e-12) return;
+    const [a, b, c] = points.map(point => builder.addVertex(source, point));
+    builder.addTriangle(a, b, c, materialIndex);
+  };
+
+  // Existing faces keep their order, with moved corners swapped in
+  triangles.forEach((corners, face) => {
+    const [a, b, c] = corners.map(corner => resolveCorner(face, corner));
+    builder.addTriangle(a, b, c, getFaceMaterialIndex(geometry, face));
+  });
+
+  fillers.forEach(({ points, source, face }) => {
+    addPointTriangle(points, source, getFaceMaterialIndex(geometry, face));
+  });
+
+  // Profile strip along each beveled edge
+  selected.forEach(key => {
+    const [faceA, faceB] = edgeFaces.get(key) as number[];
+    let [start, end] = key.split('_').map(Number);
+    // Walk the edge in the direction the first face winds it
+    if (rotateTo(faceA, start).next !== end) {
+      [start, end] = [end, start];
+    }
+
+    const corner = rotateTo(faceA, start).corners[0];
+    const replacementAt = (weld: number, face: number) =>
+      replacements.get(`${weld}:${face}`)?.position ?? weldPositions[weld];
+    const profile = (weld: number) => Array.from({ length: segments + 1 }, (_, j) =>
+      quadraticBezier(replacementAt(weld, faceA), weldPositions[weld], replacementAt(weld, faceB), j / segments)
+    );
+
+    const startProfile = profile(start).map(point => builder.addVertex(corner, point));
+    const endProfile = profile(end).map(point => builder.addVertex(corner, point));
+    const materialIndex = getFaceMaterialIndex(geometry, faceA);
+    for (let j = 0; j < segments; j++) {
+      builder.addTriangle(startProfile[j], startProfile[j + 1], endProfile[j + 1], materialIndex);
+      builder.addTriangle(startProfile[j], endProfile[j + 1], endProfile[j], materialIndex);
+    }
+  });
+
+  // Fans run against the winding, so patches wind opposite to their loop
+  patches.forEach(({ points, center, source, face }) => {
+    const materialIndex = getFaceMaterialIndex(geometry, face);
+    points.forEach((point, i) => {
+      addPointTriangle([center, points[(i + 1) % points.length], point], source, materialIndex);
+    });
+  });
+
+  return builder.build();
+};
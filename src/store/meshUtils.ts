@@ -0,0 +1,210 @@
+import * as THREE from 'three';
+
+// Vertices closer than this are treated as the same (welded) vertex
+export const WELD_TOLERANCE = 0.0001;
+
+export const getFaceCount = (geometry: THREE.BufferGeometry) =>
+  Math.floor((geometry.index ? geometry.index.count : geometry.attributes.position.count) / 3);
+
+// Faces are the geometry's triangles, numbered the same way as the
+// `faceIndex` THREE reports on raycast hits. Face mode picks the quads they
+// pair up into (see getPolygonFaces).
+export const getFaceVertexIndices = (geometry: THREE.BufferGeometry, face: number): [number, number, number] => {
+  const index = geometry.index;
+  return index
+    ? [index.getX(face * 3), index.getX(face * 3 + 1), index.getX(face * 3 + 2)]
+    : [face * 3, face * 3 + 1, face * 3 + 2];
+};
+
+export const weldKey = (positions: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, index: number) =>
+  [positions.getX(index), positions.getY(index), positions.getZ(index)]
+    .map(value => Math.round(value / WELD_TOLERANCE))
+    .join(',');
+
+// Expands a set of vertex indices with every vertex sharing a position with
+// one of them, so split vertices (UV seams, hard edges) move together.
+export const findWeldedVertices = (geometry: THREE.BufferGeometry, indices: number[]) => {
+  const positions = geometry.attributes.position;
+  const keys = new Set(indices.map(index => weldKey(positions, index)));
+  const welded: number[] = [];
+
+  for (let i = 0; i < positions.count; i++) {
+    if (keys.has(weldKey(positions, i))) {
+      welded.push(i);
+    }
+  }
+  return welded;
+};
+
+// Material index of the geometry group a face belongs to (0 without groups)
+export const getFaceMaterialIndex = (geometry: THREE.BufferGeometry, face: number) => {
+  const start = face * 3;
+  const group = geometry.groups.find(g => start >= g.start && start < g.start + g.count);
+  return group?.materialIndex ?? 0;
+};
+
+export const getFacesVertexIndices = (geometry: THREE.BufferGeometry, faces: number[]) =>
+  Array.from(new Set(faces.flatMap(face => getFaceVertexIndices(geometry, face))));
+
+const getFaceTriangle = (geometry: THREE.BufferGeometry, face: number) => {
+  const positions = geometry.attributes.position;
+  const [a, b, c] = getFaceVertexIndices(geometry, face);
+  return new THREE.Triangle(
+    new THREE.Vector3().fromBufferAttribute(positions, a),
+    new THREE.Vector3().fromBufferAttribute(positions, b),
+    new THREE.Vector3().fromBufferAttribute(positions, c)
+  );
+};
+
+// Average of the face midpoints, in the geometry's local space
+export const getFacesCenter = (geometry: THREE.BufferGeometry, faces: number[]) => {
+  const center = new THREE.Vector3();
+  if (faces.length === 0) return center;
+
+  const midpoint = new THREE.Vector3();
+  faces.forEach(face => center.add(getFaceTriangle(geometry, face).getMidpoint(midpoint)));
+  return center.divideScalar(faces.length);
+};
+
+// Average position of the given vertices, counting welded copies once, in
+// the geometry's local space
+export const getVerticesCenter = (geometry: THREE.BufferGeometry, vertices: number[]) => {
+  const positions = geometry.attributes.position;
+  const center = new THREE.Vector3();
+  const seen = new Set<string>();
+
+  vertices.forEach(index => {
+    const key = weldKey(positions, index);
+    if (seen.has(key)) return;
+    seen.add(key);
+    center.add(new THREE.Vector3().fromBufferAttribute(positions, index));
+  });
+  return seen.size > 0 ? center.divideScalar(seen.size) : center;
+};
+
+// Area-weighted average of the face normals, in the geometry's local space
+export const getFacesNormal = (geometry: THREE.BufferGeometry, faces: number[]) => {
+  const normal = new THREE.Vector3();
+  const faceNormal = new THREE.Vector3();
+
+  faces.forEach(face => {
+    const triangle = getFaceTriangle(geometry, face);
+    triangle.getNormal(faceNormal);
+    normal.addScaledVector(faceNormal, triangle.getArea());
+  });
+
+  return normal.lengthSq() > 0 ? normal.normalize() : new THREE.Vector3(0, 1, 0);
+};
+
+// World-space positions of a face's corners, for drawing highlights
+export const getFaceWorldPositions = (geometry: THREE.BufferGeometry, face: number, matrixWorld: THREE.Matrix4) => {
+  const { a, b, c } = getFaceTriangle(geometry, face);
+  return [a, b, c].map(vertex => vertex.applyMatrix4(matrixWorld));
+};
+
+// Triangles whose normals differ by less than this (about 0.8°) count as flat
+const COPLANAR_TOLERANCE = 1e-4;
+// Relative difference below which two edges count as equally long
+const LENGTH_TOLERANCE = 1e-4;
+
+const getEdgeKey = (positions: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, a: number, b: number) =>
+  [weldKey(positions, a), weldKey(positions, b)].sort().join('|');
+
+const getFaceEdges = (geometry: THREE.BufferGeometry, face: number) => {
+  const [a, b, c] = getFaceVertexIndices(geometry, face);
+  return [[a, b], [b, c], [c, a]];
+};
+
+// The triangles on each edge, by welded position. Kept per geometry until its
+// positions change, since hovering in face mode asks for it on every move.
+const edgeTriangles = new WeakMap<THREE.BufferGeometry, { version: number; triangles: Map<string, number[]> }>();
+
+const getEdgeTriangles = (geometry: THREE.BufferGeometry) => {
+  const positions = geometry.attributes.position;
+  const version = 'version' in positions ? positions.version : 0;
+  const cached = edgeTriangles.get(geometry);
+  if (cached && cached.version === version) return cached.triangles;
+
+  const triangles = new Map<string, number[]>();
+  for (let face = 0; face < getFaceCount(geometry); face++) {
+    getFaceEdges(geometry, face).forEach(([a, b]) => {
+      const key = getEdgeKey(positions, a, b);
+      triangles.set(key, [...(triangles.get(key) ?? []), face]);
+    });
+  }
+  edgeTriangles.set(geometry, { version, triangles });
+  return triangles;
+};
+
+// Every edge of the mesh once, as the vertex pair it was first found on, so
+// edges split by seams or hard normals are drawn and picked once. Edits move
+// welded vertices together, so the pairs hold until the buffers are replaced.
+const weldedEdges = new WeakMap<THREE.BufferGeometry, {
+  positions: THREE.BufferGeometry['attributes']['position'];
+  index: THREE.BufferAttribute | null;
+  edges: Array<[number, number]>;
+}>();
+
+export const getWeldedEdges = (geometry: THREE.BufferGeometry) => {
+  const positions = geometry.attributes.position;
+  const cached = weldedEdges.get(geometry);
+  if (cached && cached.positions === positions && cached.index === geometry.index) return cached.edges;
+
+  const seen = new Set<string>();
+  const edges: Array<[number, number]> = [];
+  for (let face = 0; face < getFaceCount(geometry); face++) {
+    getFaceEdges(geometry, face).forEach(([a, b]) => {
+      const key = getEdgeKey(positions, a, b);
+      if (seen.has(key)) return;
+      seen.add(key);
+      edges.push([a, b]);
+    });
+  }
+  weldedEdges.set(geometry, { positions, index: geometry.index, edges });
+  return edges;
+};
+
+// The edge of a triangle that is clearly longer than the other two, which in
+// a quad split into two triangles is the diagonal. Null when there is a tie,
+// as in the fan triangles of a circle.
+const getLongestEdge = (geometry: THREE.BufferGeometry, face: number) => {
+  const positions = geometry.attributes.position;
+  const start = new THREE.Vector3();
+  const end = new THREE.Vector3();
+  const edges = getFaceEdges(geometry, face)
+    .map(([a, b]) => ({
+      key: getEdgeKey(positions, a, b),
+      length: start.fromBufferAttribute(positions, a).distanceTo(end.fromBufferAttribute(positions, b))
+    }))
+    .sort((a, b) => b.length - a.length);
+  return edges[0].length - edges[1].length > edges[0].length * LENGTH_TOLERANCE ? edges[0].key : null;
+};
+
+// The polygon a triangle belongs to: the triangle and, when it is half of a
+// flat quad (one segment cell of a box side, plane or sphere), its other half
+// across the diagonal. Larger flat areas stay split into their cells.
+export const getPolygonFaces = (geometry: THREE.BufferGeometry, face: number) => {
+  const diagonal = getLongestEdge(geometry, face);
+  if (!diagonal) return [face];
+
+  const normal = getFaceTriangle(geometry, face).getNormal(new THREE.Vector3());
+  const otherNormal = new THREE.Vector3();
+  const partner = getEdgeTriangles(geometry).get(diagonal)?.find(other =>
+    other !== face &&
+    getFaceTriangle(geometry, other).getNormal(otherNormal).dot(normal) >= 1 - COPLANAR_TOLERANCE &&
+    getLongestEdge(geometry, other) === diagonal
+  );
+  return partner === undefined ? [face] : [face, partner].sort((a, b) => a - b);
+};
+
+// How many polygons a set of triangles makes up, for showing face counts
+export const countPolygons = (geometry: THREE.BufferGeometry, faces: number[]) => {
+  const counted = new Set<number>();
+  let count = 0;
+  faces.forEach(face => {
+    if (counted.has(face)) return;
+    getPolygonFaces(geometry, face).forEach(f => counted.add(f));
+    count++;
+  });
+  return count;
+};
@@ -0,0 +1,76 @@
+import * as THREE from 'three';
+import { NURBSCurve } from 'three/examples/jsm/curves/NURBSCurve.js';
+import { NURBSSurface } from 'three/examples/jsm/curves/NURBSSurface.js';
+import { ParametricGeometry } from 'three/examples/jsm/geometries/ParametricGeometry.js';
+
+export interface ControlPoint {
+  position: THREE.Vector3;
+  weight: number;
+}
+
+export const MAX_NURBS_DEGREE = 5;
+export const CURVE_TUBE_RADIUS = 0.05;
+
+const CURVE_SEGMENTS_PER_POINT = 16;
+const SURFACE_DIVISIONS = 24;
+
+// Clamped uniform knot vector, so the shape starts and ends on the first
+// and last control points
+const clampedKnots = (count: number, degree: number) => {
+  const spans = count - degree;
+  return Array.from({ length: count + degree + 1 }, (_, i) =>
+    Math.min(Math.max(i - degree, 0), spans) / spans
+  );
+};
+
+const toHomogeneous = ({ position, weight }: ControlPoint) =>
+  new THREE.Vector4(position.x, position.y, position.z, weight);
+
+// The degree can't exceed what the number of control points supports
+export const getEffectiveDegree = (degree: number, count: number) => Math.max(1, Math.min(degree, count - 1));
+
+// Control points fill the surface net row by row; an incomplete last row
+// is left out
+export const getSurfaceLayout = (count: number, columns: number) => {
+  const rows = Math.floor(count / columns);
+  return { rows, columns, used: rows * columns };
+};
+
+export const buildNURBSCurve = (points: ControlPoint[], degree: number) => {
+  if (points.length < 2) return null;
+
+  const effectiveDegree = getEffectiveDegree(degree, points.length);
+  return new NURBSCurve(effectiveDegree, clampedKnots(points.length, effectiveDegree), points.map(toHomogeneous));
+};
+
+export const buildNURBSSurface = (points: ControlPoint[], columns: number, degree: number) => {
+  const { rows } = getSurfaceLayout(points.length, columns);
+  if (columns < 2 || rows < 2) return null;
+
+  const rowDegree = getEffectiveDegree(degree, rows);
+  const columnDegree = getEffectiveDegree(degree, columns);
+  const net = Array.from({ length: rows }, (_, row) =>
+    points.slice(row * columns, (row + 1) * columns).map(toHomogeneous)
+  );
+  return new NURBSSurface(rowDegree, columnDegree, clampedKnots(rows, rowDegree), clampedKnots(columns, columnDegree), net);
+};
+
+// Tessellations are returned as plain BufferGeometry so they behave like
+// any other edited mesh (vertex editing, scene files)
+export const createCurveGeometry = (curve: NURBSCurve, pointCount: number) => {
+  const tube = new THREE.TubeGeometry(curve, pointCount * CURVE_SEGMENTS_PER_POINT, CURVE_TUBE_RADIUS, 8, false);
+  const geometry = new THREE.BufferGeometry().copy(tube);
+  tube.dispose();
+  return geometry;
+};
+
+export const createSurfaceGeometry = (surface: NURBSSurface) => {
+  const parametric = new ParametricGeometry(
+    (u, v, target) => surface.getPoint(u, v, target),
+    SURFACE_DIVISIONS,
+    SURFACE_DIVISIONS
+  );
+  const geometry = new THREE.BufferGeometry().copy(parametric);
+  parametric.dispose();
+  return geometry;
+};
@@ -0,0 +1,394 @@
+import * as THREE from 'three';
+import type { CameraBookmark, Group, SceneObject } from './sceneStore';
+import { GeometryParameters, createGeometry, getGeometryParameters, isPrimitiveGeometry } from './geometries';
+import { type LibraryMaterial, type MaterialSettings, createMaterial, getMaterialSettings } from './materials';
+import { type LightSettings, type LightType, applyLightSettings, createLight, getLightSettings, getLightType } from './lights';
+
+export const SCENE_FILE_FORMAT = 'coordinates-scene';
+export const SCENE_FILE_VERSION = 7;
+
+type Vector3Tuple = [number, number, number];
+
+type SerializedGeometry =
+  | {
+      type: string;
+      parameters: GeometryParameters;
+      // Present only when vertices were edited after the primitive was created
+      positions?: number[];
+    }
+  | {
+      type: 'BufferGeometry';
+      positions: number[];
+      normals?: number[];
+      uvs?: number[];
+      index?: number[];
+      // Ranges of faces drawn with each of the object's materials
+      groups?: Array<{ start: number; count: number; materialIndex: number }>;
+    };
+
+// Geometry shared with an earlier object in the file, as linked duplicates do
+interface SerializedGeometryLink {
+  linkedTo: string;
+}
+
+interface SerializedTransform {
+  position: Vector3Tuple;
+  quaternion: [number, number, number, number];
+  scale: Vector3Tuple;
+}
+
+// Files before version 6 have only color and opacity; the rest default
+type SerializedMaterial = Pick<MaterialSettings, 'color' | 'opacity'> & Partial<MaterialSettings>;
+
+// A material from the scene's library
+interface SerializedMaterialLink {
+  libraryId: string;
+}
+
+interface SerializedLibraryMaterial extends MaterialSettings {
+  id: string;
+  name: string;
+}
+
+interface SerializedObjectBase {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  groupId?: string;
+  parentId?: string;
+  transform: SerializedTransform;
+}
+
+interface SerializedMesh extends SerializedObjectBase {
+  kind: 'mesh';
+  geometry: SerializedGeometry | SerializedGeometryLink;
+  // An array when faces use different materials (e.g. boolean results)
+  material: SerializedMaterial | SerializedMaterialLink | SerializedMaterial[] | null;
+}
+
+interface SerializedLight extends SerializedObjectBase {
+  kind: 'light';
+  type: LightType;
+  settings: LightSettings;
+}
+
+type SerializedObject = SerializedMesh | SerializedLight;
+
+interface SerializedGroup {
+  id: string;
+  name: string;
+  expanded: boolean;
+  visible: boolean;
+  locked: boolean;
+  objectIds: string[];
+  parentId?: string;
+  transform: SerializedTransform;
+}
+
+interface SerializedCameraBookmark {
+  id: string;
+  name: string;
+  view: {
+    projection: 'perspective' | 'orthographic';
+    position: Vector3Tuple;
+    target: Vector3Tuple;
+    up: Vector3Tuple;
+    fov: number;
+    zoom: number;
+  };
+}
+
+export interface SceneFile {
+  format: typeof SCENE_FILE_FORMAT;
+  version: number;
+  objects: SerializedObject[];
+  groups: SerializedGroup[];
+  cameraBookmarks: SerializedCameraBookmark[];
+  materials: SerializedLibraryMaterial[];
+}
+
+type VersionedFile = { format: string; version: number } & Record<string, unknown>;
+
+// Upgrades a file from the version it is keyed by to the next one. When the
+// format changes, bump SCENE_FILE_VERSION and add a step here so older files
+// keep opening.
+const migrations: Record<number, (file: VersionedFile) => VersionedFile> = {
+  // Version 2 allows per-face materials; version 1 files are valid as they are
+  1: (file) => ({ ...file, version: 2 }),
+  // Version 3 stores camera bookmarks
+  2: (file) => ({ ...file, version: 3, cameraBookmarks: [] }),
+  // Version 4 lets objects share geometry; version 3 files are valid as they are
+  3: (file) => ({ ...file, version: 4 }),
+  // Version 5 nests groups and objects, and gives groups a transform
+  4: (file) => ({
+    ...file,
+    version: 5,
+    groups: (file.groups as Array<Omit<SerializedGroup, 'transform'>>).map(group => ({
+      ...group,
+      transform: { position: [0, 0, 0], quaternion: [0, 0, 0, 1], scale: [1, 1, 1] },
+    })),
+  }),
+  // Version 6 adds the material library and the full material settings
+  5: (file) => ({ ...file, version: 6, materials: [] }),
+  // Version 7 adds lights; version 6 files are valid as they are
+  6: (file) => ({ ...file, version: 7 }),
+};
+
+const arraysMatch = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+};
+
+const serializeTransform = (object: THREE.Object3D): SerializedTransform => ({
+  position: object.position.toArray() as Vector3Tuple,
+  quaternion: object.quaternion.toArray() as [number, number, number, number],
+  scale: object.scale.toArray() as Vector3Tuple,
+});
+
+const applyTransform = (object: THREE.Object3D, transform: SerializedTransform) => {
+  object.position.fromArray(transform.position);
+  object.quaternion.fromArray(transform.quaternion);
+  object.scale.fromArray(transform.scale);
+};
+
+const serializeGeometry = (geometry: THREE.BufferGeometry): SerializedGeometry => {
+  const positions = geometry.attributes.position;
+
+  if (isPrimitiveGeometry(geometry)) {
+    const parameters = getGeometryParameters(geometry);
+    const pristine = createGeometry(geometry.type, parameters);
+    const edited = !pristine || !arraysMatch(pristine.attributes.position.array, positions.array);
+    pristine?.dispose();
+
+    return edited
+      ? { type: geometry.type, parameters, positions: Array.from(positions.array) }
+      : { type: geometry.type, parameters };
+  }
+
+  return {
+    type: 'BufferGeometry',
+    positions: Array.from(positions.array),
+    normals: geometry.attributes.normal ? Array.from(geometry.attributes.normal.array) : undefined,
+    uvs: geometry.attributes.uv ? Array.from(geometry.attributes.uv.array) : undefined,
+    index: geometry.index ? Array.from(geometry.index.array) : undefined,
+    groups: geometry.groups.length > 0
+      ? geometry.groups.map(({ start, count, materialIndex }) => ({ start, count, materialIndex: materialIndex ?? 0 }))
+      : undefined,
+  };
+};
+
+const serializeSingleMaterial = (material: THREE.Material): SerializedMaterial | null =>
+  material instanceof THREE.MeshStandardMaterial ? getMaterialSettings(material) : null;
+
+const serializeMaterial = (material: THREE.Material | THREE.Material[], library: LibraryMaterial[]) => {
+  if (!Array.isArray(material)) {
+    const entry = library.find(libraryMaterial => libraryMaterial.material === material);
+    return entry ? { libraryId: entry.id } : serializeSingleMaterial(material);
+  }
+  return material.map(entry => serializeSingleMaterial(entry) ?? { color: '#44aa88', opacity: 1 });
+};
+
+export const serializeScene = (
+  objects: SceneObject[],
+  groups: Group[],
+  cameraBookmarks: CameraBookmark[],
+  materialLibrary: LibraryMaterial[]
+): SceneFile => {
+  // The first object with each geometry stores it; the rest link to that one
+  const geometryOwners = new Map<THREE.BufferGeometry, string>();
+  const serializeSharedGeometry = (id: string, geometry: THREE.BufferGeometry) => {
+    const owner = geometryOwners.get(geometry);
+    if (owner) return { linkedTo: owner };
+    geometryOwners.set(geometry, id);
+    return serializeGeometry(geometry);
+  };
+
+  return {
+    format: SCENE_FILE_FORMAT,
+    version: SCENE_FILE_VERSION,
+    objects: objects.flatMap(({ id, name, visible, locked, groupId, parentId, object }): SerializedObject[] => {
+      const base = { id, name, visible, locked, groupId, parentId, transform: serializeTransform(object) };
+      if (object instanceof THREE.Mesh) {
+        return [{
+          ...base,
+          kind: 'mesh',
+          geometry: serializeSharedGeometry(id, object.geometry),
+          material: serializeMaterial(object.material, materialLibrary),
+        }];
+      }
+      const type = object instanceof THREE.Light ? getLightType(object) : null;
+      if (object instanceof THREE.Light && type) {
+        return [{ ...base, kind: 'light', type, settings: getLightSettings(object) }];
+      }
+      return [];
+    }),
+    groups: groups.map(({ object, ...group }) => ({
+      ...group,
+      objectIds: [...group.objectIds],
+      transform: serializeTransform(object),
+    })),
+    cameraBookmarks: cameraBookmarks.map(({ id, name, view }) => ({
+      id,
+      name,
+      view: {
+        projection: view.projection,
+        position: view.position.toArray() as Vector3Tuple,
+        target: view.target.toArray() as Vector3Tuple,
+        up: view.up.toArray() as Vector3Tuple,
+        fov: view.fov,
+        zoom: view.zoom,
+      },
+    })),
+    materials: materialLibrary.map(({ id, name, material }) => ({ id, name, ...getMaterialSettings(material) })),
+  };
+};
+
+const deserializeGeometry = (data: SerializedGeometry) => {
+  if ('parameters' in data) {
+    const geometry = createGeometry(data.type, data.parameters);
+    if (!geometry) {
+      throw new Error(`Unknown geometry type "${data.type}"`);
+    }
+    const positions = geometry.attributes.position;
+    if (data.positions && data.positions.length === positions.array.length) {
+      (positions.array as Float32Array).set(data.positions);
+      positions.needsUpdate = true;
+      geometry.computeVertexNormals();
+    }
+    return geometry;
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(data.positions, 3));
+  if (data.uvs) {
+    geometry.setAttribute('uv', new THREE.Float32BufferAttribute(data.uvs, 2));
+  }
+  if (data.index) {
+    geometry.setIndex(data.index);
+  }
+  if (data.normals) {
+    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(data.normals, 3));
+  } else {
+    geometry.computeVertexNormals();
+  }
+  data.groups?.forEach(({ start, count, materialIndex }) => geometry.addGroup(start, count, materialIndex));
+  return geometry;
+};
+
+const deserializeMaterial = (data: SerializedMaterial | null) => createMaterial(data ?? {});
+
+// Geometry read so far is kept by object id, for later objects linked to it
+const deserializeMesh = (
+  data: SerializedMesh,
+  geometries: Map<string, THREE.BufferGeometry>,
+  library: LibraryMaterial[]
+) => {
+  let material: THREE.Material | THREE.Material[];
+  if (Array.isArray(data.material)) {
+    material = data.material.map(deserializeMaterial);
+  } else if (data.material && 'libraryId' in data.material) {
+    const { libraryId } = data.material;
+    const entry = library.find(libraryMaterial => libraryMaterial.id === libraryId);
+    if (!entry) {
+      throw new Error(`Object "${data.name}" uses a material that isn't in the file`);
+    }
+    material = entry.material;
+  } else {
+    material = deserializeMaterial(data.material);
+  }
+
+  let geometry: THREE.BufferGeometry;
+  if ('linkedTo' in data.geometry) {
+    const linked = geometries.get(data.geometry.linkedTo);
+    if (!linked) {
+      throw new Error(`Object "${data.name}" links to geometry that isn't in the file`);
+    }
+    geometry = linked;
+  } else {
+    geometry = deserializeGeometry(data.geometry);
+  }
+  geometries.set(data.id, geometry);
+
+  return new THREE.Mesh(geometry, material);
+};
+
+const deserializeLight = (data: SerializedLight) => {
+  const light = createLight(data.type);
+  if (!light) {
+    throw new Error(`Unknown light type "${data.type}"`);
+  }
+  return applyLightSettings(light, data.settings);
+};
+
+const deserializeObject = (
+  data: SerializedObject,
+  geometries: Map<string, THREE.BufferGeometry>,
+  library: LibraryMaterial[]
+): SceneObject => {
+  const object = data.kind === 'light' ? deserializeLight(data) : deserializeMesh(data, geometries, library);
+  applyTransform(object, data.transform);
+
+  return {
+    id: data.id,
+    object,
+    name: data.name,
+    visible: data.visible,
+    locked: data.locked,
+    groupId: data.groupId,
+    parentId: data.parentId,
+  };
+};
+
+const deserializeGroup = ({ transform, ...data }: SerializedGroup): Group => {
+  const object = new THREE.Group();
+  applyTransform(object, transform);
+  return { ...data, objectIds: [...data.objectIds], object };
+};
+
+export const migrateSceneFile = (data: unknown): SceneFile => {
+  let file = data as VersionedFile;
+  if (!file || file.format !== SCENE_FILE_FORMAT || typeof file.version !== 'number') {
+    throw new Error('Not a scene file');
+  }
+  if (file.version > SCENE_FILE_VERSION) {
+    throw new Error(`Scene file version ${file.version} is newer than this editor supports`);
+  }
+
+  while (file.version < SCENE_FILE_VERSION) {
+    const migrate = migrations[file.version];
+    if (!migrate) {
+      throw new Error(`No migration from scene file version ${file.version}`);
+    }
+    file = migrate(file);
+  }
+  return file as unknown as SceneFile;
+};
+
+export const deserializeScene = (data: unknown) => {
+  const file = migrateSceneFile(data);
+  const geometries = new Map<string, THREE.BufferGeometry>();
+  const materialLibrary = file.materials.map(({ id, name, ...settings }): LibraryMaterial => ({
+    id,
+    name,
+    material: createMaterial(settings),
+  }));
+  return {
+    objects: file.objects.map(object => deserializeObject(object, geometries, materialLibrary)),
+    groups: file.groups.map(deserializeGroup),
+    cameraBookmarks: file.cameraBookmarks.map(({ id, name, view }): CameraBookmark => ({
+      id,
+      name,
+      view: {
+        ...view,
+        position: new THREE.Vector3().fromArray(view.position),
+        target: new THREE.Vector3().fromArray(view.target),
+        up: new THREE.Vector3().fromArray(view.up),
+      },
+    })),
+    materialLibrary,
+  };
+};
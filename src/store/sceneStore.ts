@@ -1,41 +1,129 @@
 import { create } from 'zustand';
 import * as THREE from 'three';
-
-type EditMode = 'vertex' | 'edge' | null;
-type CameraPerspective = 'perspective' | 'front' | 'back' | 'left' | 'right' | 'top' | 'bottom';
-
-interface Group {
+import {
+  HISTORY_LIMIT,
+  HistoryState,
+  SceneSnapshot,
+  captureSnapshot,
+  restoreSnapshot,
+  snapshotsEqual
+} from './history';
+import { findWeldedVertices, getFacesCenter, getFacesNormal, getFacesVertexIndices, getPolygonFaces, getVerticesCenter, weldKey } from './meshUtils';
+import { bevelEdges, extrudeFaces } from './meshOperations';
+import { type BooleanOperation, computeBoolean } from './csg';
+import { DEFAULT_SNAP_SETTINGS, type SnapSettings, getSnapStep, snapValue, snapVector } from './snapping';
+import type { ViewportLayout, ViewportPane } from './viewports';
+import { type LibraryMaterial, type MaterialSettings, applyMaterialSettings, getEditableMaterial } from './materials';
+import { type LightSettings, applyLightSettings, attachLightTarget } from './lights';
+import { type GeometryParameters, clampGeometryParameters, createGeometry, getGeometryParameters, isPrimitiveGeometry } from './geometries';
+import { findNode, findNodeByObject, getNodeWorldMatrix, getParentId, isDescendantOf, isGroupNode, isNodeLocked, isNodeShown } from './hierarchy';
+import { type KeyBindings, type KeyCombo, type ShortcutId, getDefaultKeyBindings, loadKeyBindings, saveKeyBindings } from './keymap';
+import {
+  type ControlPoint,
+  buildNURBSCurve,
+  buildNURBSSurface,
+  createCurveGeometry,
+  createSurfaceGeometry
+} from './nurbs';
+
+type EditMode = 'vertex' | 'edge' | 'face' | 'extrude' | 'bevel' | 'curve' | 'nurbs' | null;
+export type CameraPerspective = 'perspective' | 'front' | 'back' | 'left' | 'right' | 'top' | 'bottom';
+
+export interface Group {
   id: string;
   name: string;
   expanded: boolean;
   visible: boolean;
   locked: boolean;
+  // Objects directly in this group
   objectIds: string[];
+  // Group this one is nested in
+  parentId?: string;
+  // Carries the group's transform, which its members move with
+  object: THREE.Group;
+}
+
+// Everything needed to put the viewport camera back where it was
+export interface CameraView {
+  projection: 'perspective' | 'orthographic';
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  up: THREE.Vector3;
+  fov: number;
+  zoom: number;
+}
+
+export interface CameraBookmark {
+  id: string;
+  name: string;
+  view: CameraView;
+}
+
+// Step between array copies: the nth copy is moved and rotated n times as
+// far as the first, and scaled by the factor n times over
+export interface ArrayOffset {
+  position: THREE.Vector3;
+  rotation: THREE.Euler;
+  scale: THREE.Vector3;
+}
+
+// Registered by the viewport while it is mounted
+export interface CameraRig {
+  captureView: () => CameraView;
+  showView: (view: CameraView) => void;
+  showPerspective: (perspective: CameraPerspective) => void;
+  // Animates round the target to look from a direction
+  orbitTo: (direction: THREE.Vector3, up: THREE.Vector3) => void;
+  // Turns round the target at once, by angles in radians
+  orbitBy: (yaw: number, pitch: number) => void;
+}
+
+export interface SceneObject {
+  id: string;
+  object: THREE.Object3D;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  groupId?: string;
+  // Object this one is parented to, in place of a group
+  parentId?: string;
 }
 
 interface SceneState {
-  objects: Array<{
-    id: string;
-    object: THREE.Object3D;
-    name: string;
-    visible: boolean;
-    locked: boolean;
-    groupId?: string;
-  }>;
+  objects: SceneObject[];
   groups: Group[];
+  // The active object: the last one picked, used by edit modes and properties
   selectedObject: THREE.Object3D | null;
+  // Every selected object in the order it was picked, including the active one
+  selectedObjects: THREE.Object3D[];
+  selectionTool: 'box' | 'lasso' | null;
   transformMode: 'translate' | 'rotate' | 'scale' | null;
   editMode: EditMode;
-  cameraPerspective: CameraPerspective;
+  // Null once the camera has been moved off the presets, to a bookmark or
+  // with the view cube
+  cameraPerspective: CameraPerspective | null;
+  cameraBookmarks: CameraBookmark[];
+  // Named materials objects can share, saved with the scene
+  materialLibrary: LibraryMaterial[];
+  cameraRig: CameraRig | null;
+  viewportLayout: ViewportLayout;
+  // Pane filling the viewport in the quad layout
+  maximizedViewport: ViewportPane | null;
+  // Pane last under the pointer, which picking and gizmos work in
+  activeViewport: ViewportPane;
   selectedElements: {
     vertices: number[];
+    // Vertex index pairs, flattened: [a0, b0, a1, b1, ...]
     edges: number[];
     faces: number[];
   };
+  // Moving, rotating or scaling the selected vertices; origin and position
+  // are the selection's centroid in world space before and during the drag
   draggedVertex: {
     indices: number[];
+    initialPositions: THREE.Vector3[];
+    origin: THREE.Vector3;
     position: THREE.Vector3;
-    initialPosition: THREE.Vector3;
   } | null;
   draggedEdge: {
     indices: number[][];
@@ -45,28 +133,128 @@ interface SceneState {
     midpoint: THREE.Vector3;
   } | null;
   isDraggingEdge: boolean;
-  addObject: (object: THREE.Object3D, name: string) => void;
+  draggedFace: {
+    vertices: number[];
+    initialPositions: THREE.Vector3[];
+    origin: THREE.Vector3;
+    normal: THREE.Vector3;
+    position: THREE.Vector3;
+  } | null;
+  faceDragMode: 'normal' | 'free';
+  snapping: SnapSettings;
+  // The user's keymap, kept in local storage rather than with the scene
+  keyBindings: KeyBindings;
+  keymapEditorOpen: boolean;
+  extrudePreview: {
+    baseGeometry: THREE.BufferGeometry;
+    faces: number[];
+    distance: number;
+  } | null;
+  bevelPreview: {
+    baseGeometry: THREE.BufferGeometry;
+    edges: Array<[number, number]>;
+    segments: number;
+    width: number;
+  } | null;
+  // Control net being authored in 'curve' and 'nurbs' modes
+  nurbs: {
+    controlPoints: ControlPoint[];
+    selectedPoint: number | null;
+    degree: number;
+    // Points per row of a surface's control net
+    columns: number;
+  };
+  history: HistoryState;
+  // Grouping steps absorb the recorded actions run inside them
+  pendingHistory: { label: string; before: SceneSnapshot; grouping: boolean } | null;
+  addObject: (object: THREE.Object3D, name: string) => string;
+  loadScene: (scene: {
+    objects: SceneObject[];
+    groups: Group[];
+    cameraBookmarks: CameraBookmark[];
+    materialLibrary: LibraryMaterial[];
+  }) => void;
   removeObject: (id: string) => void;
+  removeSelectedObjects: () => void;
+  duplicateSelectedObjects: (linked: boolean) => void;
+  arrayDuplicateSelectedObjects: (count: number, offset: ArrayOffset, linked: boolean) => void;
+  hideSelectedObjects: () => void;
   setSelectedObject: (object: THREE.Object3D | null) => void;
+  toggleObjectSelection: (object: THREE.Object3D) => void;
+  setSelection: (objects: THREE.Object3D[], additive: boolean) => void;
+  setSelectionTool: (tool: 'box' | 'lasso' | null) => void;
   setTransformMode: (mode: 'translate' | 'rotate' | 'scale' | null) => void;
   setEditMode: (mode: EditMode) => void;
   setCameraPerspective: (perspective: CameraPerspective) => void;
+  setCameraRig: (rig: CameraRig | null) => void;
+  addCameraBookmark: (name?: string) => string | null;
+  renameCameraBookmark: (id: string, name: string) => void;
+  updateCameraBookmark: (id: string) => void;
+  removeCameraBookmark: (id: string) => void;
+  recallCameraBookmark: (id: string) => void;
+  orbitCameraTo: (direction: THREE.Vector3) => void;
+  orbitCameraBy: (yaw: number, pitch: number) => void;
+  setViewportLayout: (layout: ViewportLayout) => void;
+  toggleMaximizedViewport: () => void;
+  setActiveViewport: (pane: ViewportPane) => void;
   toggleVisibility: (id: string) => void;
   toggleLock: (id: string) => void;
   updateObjectName: (id: string, name: string) => void;
   updateObjectProperties: () => void;
-  updateObjectColor: (color: string) => void;
-  updateObjectOpacity: (opacity: number) => void;
+  // Applies to the materials of every selected, unlocked object
+  updateMaterial: (settings: Partial<MaterialSettings>) => void;
+  // Adds a copy of the active object's material to the library and gives it
+  // to the whole selection
+  addLibraryMaterial: (name: string) => string | null;
+  assignLibraryMaterial: (id: string) => void;
+  // Gives selected objects using a library material their own copy of it
+  makeMaterialUnique: () => void;
+  renameLibraryMaterial: (id: string, name: string) => void;
+  removeLibraryMaterial: (id: string) => void;
+  // Applies to every selected, unlocked light
+  updateLight: (settings: Partial<LightSettings>) => void;
   setSelectedElements: (type: 'vertices' | 'edges' | 'faces', indices: number[]) => void;
-  startVertexDrag: (index: number, position: THREE.Vector3) => void;
-  updateVertexDrag: (position: THREE.Vector3) => void;
+  selectVertex: (index: number, additive: boolean) => void;
+  selectVertices: (indices: number[], additive: boolean) => void;
+  startVertexDrag: () => void;
+  updateVertexDrag: (transform: THREE.Matrix4) => void;
   endVertexDrag: () => void;
   startEdgeDrag: (vertexIndices: number[], positions: THREE.Vector3[], midpoint: THREE.Vector3) => void;
   updateEdgeDrag: (position: THREE.Vector3) => void;
   endEdgeDrag: () => void;
+  commitEdgeMove: () => void;
   setIsDraggingEdge: (isDragging: boolean) => void;
-  updateCylinderVertices: (vertexCount: number) => void;
-  updateSphereVertices: (vertexCount: number) => void;
+  toggleEdgeSelection: (vertexIndices: [number, number]) => void;
+  selectFace: (face: number, additive: boolean) => void;
+  startFaceDrag: () => void;
+  updateFaceDrag: (position: THREE.Vector3, free?: boolean) => void;
+  endFaceDrag: () => void;
+  setFaceDragMode: (mode: 'normal' | 'free') => void;
+  setSnapping: (changes: Partial<SnapSettings>) => void;
+  setKeyBinding: (id: ShortcutId, keys: KeyCombo[]) => void;
+  resetKeyBindings: () => void;
+  setKeymapEditorOpen: (open: boolean) => void;
+  extrudeFace: (distance: number) => void;
+  applyExtrude: () => void;
+  cancelExtrude: () => void;
+  bevelEdge: (segments: number, width: number) => void;
+  applyBevel: () => void;
+  cancelBevel: () => void;
+  updateGeometryParameters: (changes: GeometryParameters) => void;
+  addControlPoint: (position: THREE.Vector3) => void;
+  updateControlPoint: (index: number, changes: Partial<ControlPoint>) => void;
+  removeControlPoint: (index: number) => void;
+  selectControlPoint: (index: number | null) => void;
+  setNURBSDegree: (degree: number) => void;
+  setNURBSColumns: (columns: number) => void;
+  clearControlPoints: () => void;
+  createNURBSCurve: () => void;
+  createNURBSSurface: () => void;
+  booleanObjects: (
+    operation: BooleanOperation,
+    objectIds: string[],
+    operands: 'keep' | 'hide' | 'delete'
+  ) => string | null;
   // Group management
   createGroup: (name: string, objectIds?: string[]) => void;
   removeGroup: (groupId: string) => void;
@@ -77,18 +265,300 @@ interface SceneState {
   toggleGroupLock: (groupId: string) => void;
   updateGroupName: (groupId: string, name: string) => void;
   moveObjectsToGroup: (objectIds: string[], groupId: string | null) => void;
+  // Moves groups and objects under a group or object, or to the top level
+  setParent: (ids: string[], parentId: string | null) => void;
+  // History
+  undo: () => void;
+  redo: () => void;
+  beginHistoryStep: (label: string, grouping?: boolean) => void;
+  commitHistoryStep: () => void;
   // Helper functions
   isObjectLocked: (objectId: string) => boolean;
   canSelectObject: (object: THREE.Object3D) => boolean;
 }
 
+const pushHistory = (label: string, before: SceneSnapshot) => {
+  const after = captureSnapshot(useSceneStore.getState());
+  if (snapshotsEqual(before, after)) return;
+
+  useSceneStore.setState((state) => ({
+    history: {
+      past: [...state.history.past, { id: crypto.randomUUID(), label, before, after }].slice(-HISTORY_LIMIT),
+      future: []
+    }
+  }));
+};
+
+// Wraps an action so that each call becomes one undoable step. Inside a
+// grouping step (a compound action built from others) calls are folded into
+// it; any other open step, such as a drag, is committed first.
+const recorded = <A extends unknown[], R>(label: string, action: (...args: A) => R) =>
+  (...args: A) => {
+    const { pendingHistory, commitHistoryStep } = useSceneStore.getState();
+    if (pendingHistory?.grouping) {
+      return action(...args);
+    }
+    commitHistoryStep();
+    const before = captureSnapshot(useSceneStore.getState());
+    const result = action(...args);
+    pushHistory(label, before);
+    return result;
+  };
+
+// Turns an authored NURBS tessellation into a regular object, centred on its
+// bounds so transforms pivot around it, and leaves the authoring mode
+const addNURBSMesh = (geometry: THREE.BufferGeometry, name: string, side: THREE.Side) => {
+  geometry.computeBoundingBox();
+  const center = (geometry.boundingBox as THREE.Box3).getCenter(new THREE.Vector3());
+  geometry.translate(-center.x, -center.y, -center.z);
+
+  const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color: 0x44aa88, side }));
+  mesh.position.copy(center);
+
+  const { addObject, setEditMode, setSelectedObject, clearControlPoints } = useSceneStore.getState();
+  addObject(mesh, name);
+  clearControlPoints();
+  setEditMode(null);
+  setSelectedObject(mesh);
+};
+
+// Keeps only selected objects and groups that still exist and are shown and
+// unlocked, counting their parents. The active object stays active if it
+// survived, otherwise the most recently picked survivor takes over.
+const pruneSelection = (
+  objects: SceneObject[],
+  groups: Group[],
+  selectedObjects: THREE.Object3D[],
+  selectedObject: THREE.Object3D | null
+) => {
+  const remaining = selectedObjects.filter(object => {
+    const node = findNodeByObject({ objects, groups }, object);
+    return node !== undefined &&
+      isNodeShown({ objects, groups }, node.id) &&
+      !isNodeLocked({ objects, groups }, node.id);
+  });
+  return {
+    selectedObjects: remaining,
+    selectedObject: selectedObject && remaining.includes(selectedObject)
+      ? selectedObject
+      : remaining[remaining.length - 1] ?? null
+  };
+};
+
+// Selected, unlocked meshes whose material can be replaced
+const getEditableMeshes = (selectedObjects: THREE.Object3D[]) => {
+  const { objects, isObjectLocked } = useSceneStore.getState();
+  return selectedObjects.filter((object): object is THREE.Mesh => {
+    const obj = objects.find(o => o.object === object);
+    return object instanceof THREE.Mesh && obj !== undefined && !isObjectLocked(obj.id);
+  });
+};
+
+// Materials the material panel applies to: single standard materials on
+// selected, unlocked meshes, each once even when shared
+const getEditableMaterials = (selectedObjects: THREE.Object3D[]) =>
+  [...new Set(getEditableMeshes(selectedObjects).flatMap(mesh => getEditableMaterial(mesh) ?? []))];
+
+// Linked duplicates share one geometry, so an operation that builds a new one
+// hands it to every object still using the old one
+const replaceGeometry = (objects: SceneObject[], from: THREE.BufferGeometry, to: THREE.BufferGeometry) => {
+  objects.forEach(({ object }) => {
+    if (object instanceof THREE.Mesh && object.geometry === from) object.geometry = to;
+  });
+};
+
+// Previews belong to the active object, so they are kept before it changes
+const applyPendingPreviews = () => {
+  const { extrudePreview, bevelPreview, applyExtrude, applyBevel } = useSceneStore.getState();
+  if (extrudePreview) applyExtrude();
+  if (bevelPreview) applyBevel();
+};
+
+const MOVE_EDGE_STEP = 'Move Edge';
+
+// A clicked edge stays picked so its midpoint can be typed, but its undo step
+// only opens once it moves. Closing it when the pick changes keeps unrelated
+// actions out of it.
+const finishEdgeMove = () => {
+  const { pendingHistory, commitHistoryStep } = useSceneStore.getState();
+  if (pendingHistory?.label === MOVE_EDGE_STEP) commitHistoryStep();
+};
+
+const clearedEditState = {
+  selectedElements: {
+    vertices: [],
+    edges: [],
+    faces: []
+  },
+  draggedVertex: null,
+  draggedEdge: null,
+  isDraggingEdge: false,
+  draggedFace: null,
+  extrudePreview: null,
+  bevelPreview: null
+};
+
+// State for a new multi-selection; the last picked object becomes active.
+// Mesh editing works on a single object, so it ends once several are selected.
+const multiSelection = (next: THREE.Object3D[]): Partial<SceneState> => {
+  const { selectedObject, editMode } = useSceneStore.getState();
+  const active = next[next.length - 1] ?? null;
+  if (active === selectedObject) {
+    return { selectedObjects: next };
+  }
+
+  applyPendingPreviews();
+  finishEdgeMove();
+  const isAuthoring = editMode === 'curve' || editMode === 'nurbs';
+  return {
+    ...clearedEditState,
+    selectedObjects: next,
+    selectedObject: active,
+    editMode: next.length > 1 && !isAuthoring ? null : editMode
+  };
+};
+
+// State moving groups and objects under a new parent, or to the top level,
+// without moving them in the world. Groups nest only in groups. Returns null
+// when anything involved is locked or the move would make a cycle.
+const reparentNodes = (
+  state: Pick<SceneState, 'objects' | 'groups' | 'selectedObjects' | 'selectedObject'>,
+  ids: string[],
+  parentId: string | null
+) => {
+  const nodes = ids.flatMap(id => findNode(state, id) ?? []);
+  const parent = parentId ? findNode(state, parentId) : undefined;
+  if (parentId && !parent) return null;
+  if (nodes.length === 0 || nodes.some(node => isNodeLocked(state, node.id))) return null;
+  if (parent && (isNodeLocked(state, parent.id) ||
+      nodes.some(node => node === parent || isDescendantOf(state, parent, node.id) ||
+        (isGroupNode(node) && !isGroupNode(parent))))) {
+    return null;
+  }
+
+  // Every world matrix is read before any transform changes, since moving a
+  // node changes where its descendants are
+  const parentInverse = parent ? getNodeWorldMatrix(state, parent).invert() : new THREE.Matrix4();
+  nodes
+    .map(node => [node, getNodeWorldMatrix(state, node)] as const)
+    .forEach(([node, world]) => {
+      world.premultiply(parentInverse).decompose(node.object.position, node.object.quaternion, node.object.scale);
+      node.object.updateMatrix();
+    });
+
+  const movedIds = new Set(nodes.map(node => node.id));
+  const intoGroup = parent && isGroupNode(parent) ? parent.id : undefined;
+  const underObject = parent && !isGroupNode(parent) ? parent.id : undefined;
+  const movedObjectIds = state.objects.filter(obj => movedIds.has(obj.id)).map(obj => obj.id);
+
+  const objects = state.objects.map(obj =>
+    movedIds.has(obj.id) ? { ...obj, groupId: intoGroup, parentId: underObject } : obj
+  );
+  const groups = state.groups.map(group => {
+    const objectIds = group.objectIds.filter(id => !movedIds.has(id));
+    return {
+      ...group,
+      parentId: movedIds.has(group.id) ? intoGroup : group.parentId,
+      objectIds: group.id === intoGroup ? [...objectIds, ...movedObjectIds] : objectIds
+    };
+  });
+
+  // Moving under a hidden or locked parent takes things out of the selection
+  return { objects, groups, ...pruneSelection(objects, groups, state.selectedObjects, state.selectedObject) };
+};
+
+// A copy of an object in the same place and group. Linked copies share its
+// geometry, so editing the vertices of one edits them all; otherwise the
+// geometry is copied too. Materials are copied unless they come from the
+// library, which copies keep sharing.
+const copySceneObject = (
+  source: SceneObject,
+  name: string,
+  linked: boolean,
+  library: LibraryMaterial[]
+): SceneObject => {
+  // Children are objects of their own, so they aren't copied
+  const object = source.object.clone(false);
+  if (object instanceof THREE.Mesh) {
+    const copyMaterial = (material: THREE.Material) =>
+      library.some(entry => entry.material === material) ? material : material.clone();
+    const material = object.material as THREE.Material | THREE.Material[];
+    object.material = Array.isArray(material) ? material.map(copyMaterial) : copyMaterial(material);
+    if (!linked) object.geometry = object.geometry.clone();
+  }
+  attachLightTarget(object);
+  return {
+    id: crypto.randomUUID(),
+    object,
+    name,
+    visible: true,
+    locked: false,
+    groupId: source.groupId,
+    parentId: source.parentId
+  };
+};
+
+// 'Cube' is copied as 'Cube 2', then 'Cube 3'; copies of 'Cube 2' carry on
+// the same count
+const getCopyName = (name: string, taken: Set<string>) => {
+  const base = name.replace(/ \d+$/, '');
+  let number = 2;
+  while (taken.has(`${base} ${number}`)) number++;
+  const copyName = `${base} ${number}`;
+  taken.add(copyName);
+  return copyName;
+};
+
+// State adding `count` copies of each selected object, with the nth copy
+// stepped n times by the offset. The copies become the selection.
+const copySelection = (count: number, linked: boolean, offset?: ArrayOffset): Partial<SceneState> => {
+  const { objects, groups, selectedObjects, materialLibrary } = useSceneStore.getState();
+  const taken = new Set(objects.map(obj => obj.name));
+  const copies = objects
+    .filter(obj => selectedObjects.includes(obj.object))
+    .flatMap(source => Array.from({ length: count }, (_, i) => {
+      const copy = copySceneObject(source, getCopyName(source.name, taken), linked, materialLibrary);
+      if (offset) {
+        const step = i + 1;
+        const { position, rotation, scale } = copy.object;
+        position.addScaledVector(offset.position, step);
+        rotation.set(
+          rotation.x + offset.rotation.x * step,
+          rotation.y + offset.rotation.y * step,
+          rotation.z + offset.rotation.z * step
+        );
+        scale.set(scale.x * offset.scale.x ** step, scale.y * offset.scale.y ** step, scale.z * offset.scale.z ** step);
+        copy.object.updateMatrixWorld();
+      }
+      return copy;
+    }));
+  if (copies.length === 0) return {};
+
+  return {
+    objects: [...objects, ...copies],
+    groups: groups.map(group => {
+      const added = copies.filter(copy => copy.groupId === group.id).map(copy => copy.id);
+      return added.length > 0 ? { ...group, objectIds: [...group.objectIds, ...added] } : group;
+    }),
+    ...multiSelection(copies.map(copy => copy.object))
+  };
+};
+
 export const useSceneStore = create<SceneState>((set, get) => ({
   objects: [],
   groups: [],
   selectedObject: null,
+  selectedObjects: [],
+  selectionTool: null,
   transformMode: null,
   editMode: null,
   cameraPerspective: 'perspective',
+  cameraBookmarks: [],
+  materialLibrary: [],
+  cameraRig: null,
+  viewportLayout: 'single',
+  maximizedViewport: null,
+  activeViewport: 'perspective',
   selectedElements: {
     vertices: [],
     edges: [],
@@ -97,40 +567,108 @@ export const useSceneStore = create<SceneState>((set, get) => ({
   draggedVertex: null,
   draggedEdge: null,
   isDraggingEdge: false,
+  draggedFace: null,
+  faceDragMode: 'normal',
+  snapping: DEFAULT_SNAP_SETTINGS,
+  keyBindings: loadKeyBindings(),
+  keymapEditorOpen: false,
+  extrudePreview: null,
+  bevelPreview: null,
+  nurbs: {
+    controlPoints: [],
+    selectedPoint: null,
+    degree: 3,
+    columns: 4
+  },
+  history: {
+    past: [],
+    future: []
+  },
+  pendingHistory: null,
 
-  addObject: (object, name) =>
+  addObject: recorded('Add Object', (object, name) => {
+    const id = crypto.randomUUID();
     set((state) => ({
-      objects: [...state.objects, { id: crypto.randomUUID(), object, name, visible: true, locked: false }],
-    })),
+      objects: [...state.objects, { id, object, name, visible: true, locked: false }],
+    }));
+    return id;
+  }),
+
+  loadScene: ({ objects, groups, cameraBookmarks, materialLibrary }) =>
+    set({
+      ...clearedEditState,
+      objects,
+      groups,
+      cameraBookmarks,
+      materialLibrary,
+      selectedObject: null,
+      selectedObjects: [],
+      transformMode: null,
+      editMode: null,
+      nurbs: { ...get().nurbs, controlPoints: [], selectedPoint: null },
+      history: {
+        past: [],
+        future: []
+      },
+      pendingHistory: null
+    }),
 
-  removeObject: (id) =>
+  removeObject: recorded('Delete Object', (id) =>
     set((state) => {
-      // Check if object is locked
+      // Check if object or anything above it is locked
       const objectToRemove = state.objects.find(obj => obj.id === id);
-      if (objectToRemove?.locked) return state;
+      if (!objectToRemove || isNodeLocked(state, id)) return state;
 
-      // Check if object is in a locked group
-      if (objectToRemove?.groupId) {
-        const group = state.groups.find(g => g.id === objectToRemove.groupId);
-        if (group?.locked) return state;
-      }
+      // Children stay where they are, under the object's own parent
+      const childIds = state.objects.filter(obj => obj.parentId === id).map(obj => obj.id);
+      const reparented = childIds.length > 0
+        ? reparentNodes(state, childIds, getParentId(objectToRemove) ?? null)
+        : state;
+      if (!reparented) return state;
 
       // Remove object from any group
-      const updatedGroups = state.groups.map(group => ({
+      const updatedGroups = reparented.groups.map(group => ({
         ...group,
         objectIds: group.objectIds.filter(objId => objId !== id)
       }));
 
+      const remainingObjects = reparented.objects.filter((obj) => obj.id !== id);
       return {
-        objects: state.objects.filter((obj) => obj.id !== id),
+        objects: remainingObjects,
         groups: updatedGroups,
-        selectedObject: state.objects.find((obj) => obj.id === id)?.object === state.selectedObject
-          ? null
-          : state.selectedObject,
+        ...pruneSelection(remainingObjects, updatedGroups, state.selectedObjects, state.selectedObject),
       };
-    }),
+    })),
 
-  setSelectedObject: (object) => 
+  // Deletes the whole selection as one step
+  removeSelectedObjects: () => {
+    const { objects, selectedObjects, beginHistoryStep, commitHistoryStep, removeObject } = get();
+    if (selectedObjects.length === 0) return;
+    beginHistoryStep('Delete Objects', true);
+    objects.filter(obj => selectedObjects.includes(obj.object)).forEach(obj => removeObject(obj.id));
+    commitHistoryStep();
+  },
+
+  duplicateSelectedObjects: recorded('Duplicate Objects', (linked) => set(copySelection(1, linked))),
+
+  arrayDuplicateSelectedObjects: recorded('Array Duplicate', (count, offset, linked) =>
+    set(copySelection(count, linked, offset))),
+
+  // Selected objects are always visible, so toggling hides them
+  hideSelectedObjects: () => {
+    const { objects, selectedObjects, beginHistoryStep, commitHistoryStep, toggleVisibility } = get();
+    if (selectedObjects.length === 0) return;
+    beginHistoryStep('Hide Objects', true);
+    objects.filter(obj => selectedObjects.includes(obj.object)).forEach(obj => toggleVisibility(obj.id));
+    commitHistoryStep();
+  },
+
+  setSelectedObject: (object) => {
+    // Keep a pending extrusion or bevel instead of leaving a preview behind
+    if (object !== get().selectedObject) {
+      applyPendingPreviews();
+      if (get().draggedEdge) get().endEdgeDrag();
+    }
     set((state) => {
       // Check if object can be selected (not locked)
       if (object && !get().canSelectObject(object)) {
@@ -150,15 +688,58 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       
       return { 
         selectedObject: object,
+        selectedObjects: object ? [object] : [],
         editMode: newEditMode,
         transformMode: null // Clear transform mode when selecting object
       };
-    }),
+    });
+  },
+
+  toggleObjectSelection: (object) => {
+    const { selectedObjects, canSelectObject } = get();
+    if (!selectedObjects.includes(object) && !canSelectObject(object)) return;
+
+    const remaining = selectedObjects.filter(selected => selected !== object);
+    const next = remaining.length === selectedObjects.length ? [...selectedObjects, object] : remaining;
+    set(multiSelection(next));
+  },
+
+  setSelection: (objects, additive) => {
+    const { selectedObjects, canSelectObject } = get();
+    const picked = objects.filter(object => canSelectObject(object));
+    const next = additive
+      ? [...selectedObjects, ...picked.filter(object => !selectedObjects.includes(object))]
+      : picked;
+    set(multiSelection(next));
+  },
+
+  setSelectionTool: (tool) => set({ selectionTool: tool }),
 
   setTransformMode: (mode) => set({ transformMode: mode }),
   
-  setEditMode: (mode) => 
+  setEditMode: (mode) => {
+    if (get().extrudePreview && mode !== 'extrude') {
+      get().applyExtrude();
+    }
+    if (get().bevelPreview && mode !== 'bevel') {
+      get().applyBevel();
+    }
+    if (get().draggedEdge && mode !== get().editMode) {
+      get().endEdgeDrag();
+    }
     set((state) => {
+      // Extrusion works on the faces picked in face mode
+      if (mode === 'extrude' &&
+          (!(state.selectedObject instanceof THREE.Mesh) || state.selectedElements.faces.length === 0)) {
+        return state;
+      }
+
+      // Beveling works on the edges picked in edge mode
+      if (mode === 'bevel' &&
+          (!(state.selectedObject instanceof THREE.Mesh) || state.selectedElements.edges.length === 0)) {
+        return state;
+      }
+
       // If trying to set edge mode on unsupported geometry, prevent it
       if (mode === 'edge' && state.selectedObject instanceof THREE.Mesh) {
         const geometry = state.selectedObject.geometry;
@@ -169,119 +750,204 @@ export const useSceneStore = create<SceneState>((set, get) => ({
         }
       }
       return { editMode: mode };
+    });
+  },
+
+  // Picking the current preset again moves the camera back to it
+  setCameraPerspective: (perspective) => {
+    set({ cameraPerspective: perspective });
+    get().cameraRig?.showPerspective(perspective);
+  },
+
+  setCameraRig: (rig) => set({ cameraRig: rig }),
+
+  addCameraBookmark: (name) => {
+    const { cameraRig, cameraBookmarks } = get();
+    if (!cameraRig) return null;
+
+    const id = crypto.randomUUID();
+    const bookmark = {
+      id,
+      name: name || `View ${cameraBookmarks.length + 1}`,
+      view: cameraRig.captureView()
+    };
+    set({ cameraBookmarks: [...cameraBookmarks, bookmark] });
+    return id;
+  },
+
+  renameCameraBookmark: (id, name) =>
+    set((state) => ({
+      cameraBookmarks: state.cameraBookmarks.map(bookmark =>
+        bookmark.id === id ? { ...bookmark, name } : bookmark
+      )
+    })),
+
+  updateCameraBookmark: (id) => {
+    const { cameraRig } = get();
+    if (!cameraRig) return;
+    const view = cameraRig.captureView();
+    set((state) => ({
+      cameraBookmarks: state.cameraBookmarks.map(bookmark =>
+        bookmark.id === id ? { ...bookmark, view } : bookmark
+      )
+    }));
+  },
+
+  removeCameraBookmark: (id) =>
+    set((state) => ({
+      cameraBookmarks: state.cameraBookmarks.filter(bookmark => bookmark.id !== id)
+    })),
+
+  recallCameraBookmark: (id) => {
+    const { cameraRig, cameraBookmarks } = get();
+    const bookmark = cameraBookmarks.find(entry => entry.id === id);
+    if (!cameraRig || !bookmark) return;
+    set({ cameraPerspective: null });
+    cameraRig.showView(bookmark.view);
+  },
+
+  orbitCameraTo: (direction) => {
+    set({ cameraPerspective: null });
+    get().cameraRig?.orbitTo(direction, THREE.Object3D.DEFAULT_UP);
+  },
+
+  orbitCameraBy: (yaw, pitch) => {
+    // Called on every pointer move of a drag
+    if (get().cameraPerspective) set({ cameraPerspective: null });
+    get().cameraRig?.orbitBy(yaw, pitch);
+  },
+
+  setViewportLayout: (layout) => set({ viewportLayout: layout, maximizedViewport: null }),
+
+  // Maximizes the active pane, or brings back all four
+  toggleMaximizedViewport: () =>
+    set((state) => {
+      if (state.viewportLayout !== 'quad') return state;
+      return { maximizedViewport: state.maximizedViewport ? null : state.activeViewport };
     }),
 
-  setCameraPerspective: (perspective) => set({ cameraPerspective: perspective }),
+  setActiveViewport: (pane) => set({ activeViewport: pane }),
 
-  toggleVisibility: (id) =>
+  toggleVisibility: recorded('Toggle Visibility', (id) =>
     set((state) => {
       const objectToToggle = state.objects.find(obj => obj.id === id);
       if (!objectToToggle) return state;
 
-      // Check if object is locked
-      if (objectToToggle.locked) return state;
-
-      // Check if object is in a locked group
-      if (objectToToggle.groupId) {
-        const group = state.groups.find(g => g.id === objectToToggle.groupId);
-        if (group?.locked) return state;
-      }
+      // Check if object or anything above it is locked
+      if (isNodeLocked(state, id)) return state;
 
       const updatedObjects = state.objects.map((obj) =>
         obj.id === id ? { ...obj, visible: !obj.visible } : obj
       );
       
-      const toggledObject = updatedObjects.find((obj) => obj.id === id);
-      
-      const newSelectedObject = (toggledObject && !toggledObject.visible && toggledObject.object === state.selectedObject)
-        ? null
-        : state.selectedObject;
-
       return {
         objects: updatedObjects,
-        selectedObject: newSelectedObject,
+        ...pruneSelection(updatedObjects, state.groups, state.selectedObjects, state.selectedObject),
       };
-    }),
+    })),
 
-  toggleLock: (id) =>
+  toggleLock: recorded('Toggle Lock', (id) =>
     set((state) => {
       const objectToToggle = state.objects.find(obj => obj.id === id);
       if (!objectToToggle) return state;
 
-      // Check if object is in a locked group
-      if (objectToToggle.groupId) {
-        const group = state.groups.find(g => g.id === objectToToggle.groupId);
-        if (group?.locked) return state;
-      }
+      // Check if anything above the object is locked
+      const parentId = getParentId(objectToToggle);
+      if (parentId && isNodeLocked(state, parentId)) return state;
 
       const updatedObjects = state.objects.map((obj) =>
         obj.id === id ? { ...obj, locked: !obj.locked } : obj
       );
       
-      const toggledObject = updatedObjects.find((obj) => obj.id === id);
-      
-      // Clear selection if selected object becomes locked
-      const newSelectedObject = (toggledObject && toggledObject.locked && toggledObject.object === state.selectedObject)
-        ? null
-        : state.selectedObject;
-
+      // Objects that become locked drop out of the selection
       return {
         objects: updatedObjects,
-        selectedObject: newSelectedObject,
+        ...pruneSelection(updatedObjects, state.groups, state.selectedObjects, state.selectedObject),
       };
-    }),
+    })),
 
-  updateObjectName: (id, name) =>
+  updateObjectName: recorded('Rename Object', (id, name) =>
     set((state) => {
       const objectToUpdate = state.objects.find(obj => obj.id === id);
       if (!objectToUpdate) return state;
 
-      // Check if object is locked
-      if (objectToUpdate.locked) return state;
-
-      // Check if object is in a locked group
-      if (objectToUpdate.groupId) {
-        const group = state.groups.find(g => g.id === objectToUpdate.groupId);
-        if (group?.locked) return state;
-      }
+      // Check if object or anything above it is locked
+      if (isNodeLocked(state, id)) return state;
 
       return {
         objects: state.objects.map((obj) =>
           obj.id === id ? { ...obj, name } : obj
         ),
       };
-    }),
+    })),
 
   updateObjectProperties: () => set((state) => ({ ...state })),
 
-  updateObjectColor: (color) => 
+  // A new state object, so the panel shows values changed in place
+  updateMaterial: recorded('Edit Material', (settings) =>
     set((state) => {
-      if (state.selectedObject instanceof THREE.Mesh) {
-        // Check if selected object is locked
-        const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
-        if (get().isObjectLocked(selectedObj?.id || '')) return state;
-
-        const material = state.selectedObject.material as THREE.MeshStandardMaterial;
-        material.color.setStyle(color);
-        material.needsUpdate = true;
-      }
-      return state;
-    }),
+      getEditableMaterials(state.selectedObjects).forEach(material => applyMaterialSettings(material, settings));
+      return { ...state };
+    })),
+
+  addLibraryMaterial: recorded('Add Material', (name) => {
+    const { selectedObject, selectedObjects, materialLibrary } = get();
+    const source = selectedObject ? getEditableMaterial(selectedObject) : null;
+    const meshes = getEditableMeshes(selectedObjects);
+    if (!source || meshes.length === 0) return null;
+
+    const entry: LibraryMaterial = { id: crypto.randomUUID(), name, material: source.clone() };
+    meshes.forEach(mesh => { mesh.material = entry.material; });
+    set({ materialLibrary: [...materialLibrary, entry] });
+    return entry.id;
+  }),
 
-  updateObjectOpacity: (opacity) =>
+  assignLibraryMaterial: recorded('Assign Material', (id) =>
     set((state) => {
-      if (state.selectedObject instanceof THREE.Mesh) {
-        // Check if selected object is locked
-        const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
-        if (get().isObjectLocked(selectedObj?.id || '')) return state;
-
-        const material = state.selectedObject.material as THREE.MeshStandardMaterial;
-        material.transparent = opacity < 1;
-        material.opacity = opacity;
-        material.needsUpdate = true;
-      }
-      return state;
-    }),
+      const entry = state.materialLibrary.find(material => material.id === id);
+      if (!entry) return state;
+      getEditableMeshes(state.selectedObjects).forEach(mesh => { mesh.material = entry.material; });
+      return { ...state };
+    })),
+
+  makeMaterialUnique: recorded('Make Material Unique', () =>
+    set((state) => {
+      getEditableMeshes(state.selectedObjects).forEach(mesh => {
+        if (state.materialLibrary.some(({ material }) => material === mesh.material)) {
+          mesh.material = (mesh.material as THREE.MeshStandardMaterial).clone();
+        }
+      });
+      return { ...state };
+    })),
+
+  renameLibraryMaterial: recorded('Rename Material', (id, name) =>
+    set((state) => ({
+      materialLibrary: state.materialLibrary.map(entry => entry.id === id ? { ...entry, name } : entry)
+    }))),
+
+  // Objects using the material keep their look with a copy of it each
+  removeLibraryMaterial: recorded('Delete Material', (id) =>
+    set((state) => {
+      const entry = state.materialLibrary.find(material => material.id === id);
+      if (!entry) return state;
+      state.objects.forEach(({ object }) => {
+        if (object instanceof THREE.Mesh && object.material === entry.material) {
+          object.material = entry.material.clone();
+        }
+      });
+      return { materialLibrary: state.materialLibrary.filter(material => material.id !== id) };
+    })),
+
+  updateLight: recorded('Edit Light', (settings) =>
+    set((state) => {
+      state.selectedObjects.forEach(object => {
+        const obj = state.objects.find(o => o.object === object);
+        if (object instanceof THREE.Light && obj && !isNodeLocked(state, obj.id)) {
+          applyLightSettings(object, settings);
+        }
+      });
+      return { ...state };
+    })),
 
   setSelectedElements: (type, indices) =>
     set((state) => ({
@@ -291,7 +957,8 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       },
     })),
 
-  startVertexDrag: (index, position) =>
+  // Welded copies of a vertex are always selected together
+  selectVertex: (index, additive) =>
     set((state) => {
       if (!(state.selectedObject instanceof THREE.Mesh)) return state;
 
@@ -299,40 +966,69 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
       if (get().isObjectLocked(selectedObj?.id || '')) return state;
 
-      const geometry = state.selectedObject.geometry;
-      const positions = geometry.attributes.position;
-      const overlappingIndices = [];
-      const selectedPos = new THREE.Vector3(
-        positions.getX(index),
-        positions.getY(index),
-        positions.getZ(index)
-      );
+      const welded = findWeldedVertices(state.selectedObject.geometry, [index]);
+      const vertices = state.selectedElements.vertices;
+      let newVertices = welded;
+      if (additive) {
+        newVertices = vertices.includes(index)
+          ? vertices.filter(v => !welded.includes(v))
+          : [...vertices, ...welded.filter(v => !vertices.includes(v))];
+      }
 
-      for (let i = 0; i < positions.count; i++) {
-        const pos = new THREE.Vector3(
-          positions.getX(i),
-          positions.getY(i),
-          positions.getZ(i)
-        );
-        if (pos.distanceTo(selectedPos) < 0.0001) {
-          overlappingIndices.push(i);
+      return {
+        selectedElements: {
+          ...state.selectedElements,
+          vertices: newVertices
         }
-      }
+      };
+    }),
+
+  selectVertices: (indices, additive) =>
+    set((state) => {
+      if (!(state.selectedObject instanceof THREE.Mesh)) return state;
+
+      // Check if selected object is locked
+      const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
+      if (get().isObjectLocked(selectedObj?.id || '')) return state;
+
+      const welded = findWeldedVertices(state.selectedObject.geometry, indices);
+      const vertices = state.selectedElements.vertices;
 
       return {
-        draggedVertex: {
-          indices: overlappingIndices,
-          position: position.clone(),
-          initialPosition: position.clone()
-        },
         selectedElements: {
           ...state.selectedElements,
-          vertices: overlappingIndices
+          vertices: additive ? [...vertices, ...welded.filter(v => !vertices.includes(v))] : welded
         }
       };
     }),
 
-  updateVertexDrag: (position) =>
+  startVertexDrag: () => {
+    get().beginHistoryStep('Transform Vertices');
+    set((state) => {
+      if (!(state.selectedObject instanceof THREE.Mesh) || state.selectedElements.vertices.length === 0) return state;
+
+      // Check if selected object is locked
+      const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
+      if (get().isObjectLocked(selectedObj?.id || '')) return state;
+
+      const object = state.selectedObject;
+      const positions = object.geometry.attributes.position;
+      const indices = state.selectedElements.vertices;
+      const origin = getVerticesCenter(object.geometry, indices).applyMatrix4(object.matrixWorld);
+
+      return {
+        draggedVertex: {
+          indices,
+          initialPositions: indices.map(i => new THREE.Vector3().fromBufferAttribute(positions, i)),
+          origin,
+          position: origin.clone()
+        }
+      };
+    });
+  },
+
+  // The transform is in world space, relative to where the drag started
+  updateVertexDrag: (transform) =>
     set((state) => {
       if (!state.draggedVertex || !(state.selectedObject instanceof THREE.Mesh)) return state;
 
@@ -340,33 +1036,36 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
       if (get().isObjectLocked(selectedObj?.id || '')) return state;
 
+      const { indices, initialPositions, origin } = state.draggedVertex;
+      const worldMatrix = state.selectedObject.matrixWorld;
+      const localTransform = worldMatrix.clone().invert().multiply(transform).multiply(worldMatrix);
+
       const geometry = state.selectedObject.geometry;
       const positions = geometry.attributes.position;
-      
-      // Update all overlapping vertices to the new position
-      state.draggedVertex.indices.forEach(index => {
-        positions.setXYZ(
-          index,
-          position.x,
-          position.y,
-          position.z
-        );
+      indices.forEach((index, i) => {
+        const newPos = initialPositions[i].clone().applyMatrix4(localTransform);
+        positions.setXYZ(index, newPos.x, newPos.y, newPos.z);
       });
 
       positions.needsUpdate = true;
       geometry.computeVertexNormals();
-      
+      geometry.computeBoundingSphere();
+
       return {
         draggedVertex: {
           ...state.draggedVertex,
-          position: position.clone()
+          position: origin.clone().applyMatrix4(transform)
         }
       };
     }),
 
-  endVertexDrag: () => set({ draggedVertex: null }),
+  endVertexDrag: () => {
+    set({ draggedVertex: null });
+    get().commitHistoryStep();
+  },
 
-  startEdgeDrag: (vertexIndices, positions, midpoint) =>
+  startEdgeDrag: (vertexIndices, positions, midpoint) => {
+    finishEdgeMove();
     set((state) => {
       if (!(state.selectedObject instanceof THREE.Mesh)) return state;
 
@@ -429,19 +1128,24 @@ export const useSceneStore = create<SceneState>((set, get) => ({
         },
         selectedElements: {
           ...state.selectedElements,
-          edges: Array.from(connectedVertices)
+          edges: [vertexIndices[0], vertexIndices[1]]
         }
       };
-    }),
+    });
+  },
+
+  updateEdgeDrag: (position) => {
+    const { draggedEdge, selectedObject, objects, pendingHistory, isObjectLocked, beginHistoryStep } = get();
+    if (!draggedEdge || !(selectedObject instanceof THREE.Mesh)) return;
+
+    // Check if selected object is locked
+    const selectedObj = objects.find(obj => obj.object === selectedObject);
+    if (isObjectLocked(selectedObj?.id || '')) return;
 
-  updateEdgeDrag: (position) =>
+    if (pendingHistory?.label !== MOVE_EDGE_STEP) beginHistoryStep(MOVE_EDGE_STEP);
     set((state) => {
       if (!state.draggedEdge || !(state.selectedObject instanceof THREE.Mesh)) return state;
 
-      // Check if selected object is locked
-      const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
-      if (get().isObjectLocked(selectedObj?.id || '')) return state;
-
       const geometry = state.selectedObject.geometry;
       const positions = geometry.attributes.position;
       const offset = position.clone().sub(state.draggedEdge.midpoint);
@@ -466,72 +1170,299 @@ export const useSceneStore = create<SceneState>((set, get) => ({
           midpoint: position.clone()
         }
       };
-    }),
+    });
+  },
 
-  endEdgeDrag: () => set({ draggedEdge: null }),
+  endEdgeDrag: () => {
+    set({ draggedEdge: null, isDraggingEdge: false });
+    finishEdgeMove();
+  },
+
+  // Ends the current move but keeps the edge picked
+  commitEdgeMove: finishEdgeMove,
 
   setIsDraggingEdge: (isDragging) => set({ isDraggingEdge: isDragging }),
 
-  updateCylinderVertices: (vertexCount) =>
+  toggleEdgeSelection: ([a, b]) => {
+    finishEdgeMove();
     set((state) => {
-      if (!(state.selectedObject instanceof THREE.Mesh) || 
-          !(state.selectedObject.geometry instanceof THREE.CylinderGeometry)) {
-        return state;
-      }
+      if (!(state.selectedObject instanceof THREE.Mesh)) return state;
+
+      // Compare by position so split copies of the same edge match
+      const positions = state.selectedObject.geometry.attributes.position;
+      const edgeKey = (v1: number, v2: number) => [weldKey(positions, v1), weldKey(positions, v2)].sort().join('|');
+      const key = edgeKey(a, b);
+      const edges = state.selectedElements.edges;
+      const existing = edges.findIndex((vertex, i) => i % 2 === 0 && edgeKey(vertex, edges[i + 1]) === key);
+
+      return {
+        selectedElements: {
+          ...state.selectedElements,
+          edges: existing === -1
+            ? [...edges, a, b]
+            : edges.filter((_, i) => i !== existing && i !== existing + 1)
+        }
+      };
+    });
+  },
+
+  selectFace: (face, additive) =>
+    set((state) => {
+      if (!(state.selectedObject instanceof THREE.Mesh)) return state;
 
       // Check if selected object is locked
       const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
       if (get().isObjectLocked(selectedObj?.id || '')) return state;
 
-      const oldGeometry = state.selectedObject.geometry;
-      const newGeometry = new THREE.CylinderGeometry(
-        oldGeometry.parameters.radiusTop,
-        oldGeometry.parameters.radiusBottom,
-        oldGeometry.parameters.height,
-        vertexCount,
-        oldGeometry.parameters.heightSegments,
-        oldGeometry.parameters.openEnded,
-        oldGeometry.parameters.thetaStart,
-        oldGeometry.parameters.thetaLength
-      );
-
-      state.selectedObject.geometry.dispose();
-      state.selectedObject.geometry = newGeometry;
+      // Clicking a triangle picks the quad it belongs to
+      const polygon = getPolygonFaces(state.selectedObject.geometry, face);
+      const faces = state.selectedElements.faces;
+      let newFaces = polygon;
+      if (additive) {
+        newFaces = faces.includes(face)
+          ? faces.filter(f => !polygon.includes(f))
+          : [...faces, ...polygon.filter(f => !faces.includes(f))];
+      }
 
       return {
-        ...state,
         selectedElements: {
-          vertices: [],
-          edges: [],
-          faces: []
+          ...state.selectedElements,
+          faces: newFaces
         }
       };
     }),
 
-  updateSphereVertices: (vertexCount) =>
+  startFaceDrag: () => {
+    get().beginHistoryStep('Move Faces');
     set((state) => {
-      if (!(state.selectedObject instanceof THREE.Mesh) || 
-          !(state.selectedObject.geometry instanceof THREE.SphereGeometry)) {
-        return state;
-      }
+      if (!(state.selectedObject instanceof THREE.Mesh) || state.selectedElements.faces.length === 0) return state;
 
       // Check if selected object is locked
       const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
       if (get().isObjectLocked(selectedObj?.id || '')) return state;
 
-      const oldGeometry = state.selectedObject.geometry;
-      const newGeometry = new THREE.SphereGeometry(
-        oldGeometry.parameters.radius,
-        vertexCount,
-        vertexCount / 2,
-        oldGeometry.parameters.phiStart,
-        oldGeometry.parameters.phiLength,
-        oldGeometry.parameters.thetaStart,
-        oldGeometry.parameters.thetaLength
-      );
+      const object = state.selectedObject;
+      const geometry = object.geometry;
+      const positions = geometry.attributes.position;
+      const faces = state.selectedElements.faces;
+
+      // Every vertex of the selected faces, plus the vertices welded to them
+      const vertices = findWeldedVertices(geometry, getFacesVertexIndices(geometry, faces));
+      const origin = getFacesCenter(geometry, faces).applyMatrix4(object.matrixWorld);
+      const normal = getFacesNormal(geometry, faces)
+        .applyMatrix3(new THREE.Matrix3().getNormalMatrix(object.matrixWorld))
+        .normalize();
+
+      return {
+        draggedFace: {
+          vertices,
+          initialPositions: vertices.map(i => new THREE.Vector3().fromBufferAttribute(positions, i)),
+          origin,
+          normal,
+          position: origin.clone()
+        }
+      };
+    });
+  },
+
+  updateFaceDrag: (position, free = false) =>
+    set((state) => {
+      if (!state.draggedFace || !(state.selectedObject instanceof THREE.Mesh)) return state;
+
+      // Check if selected object is locked
+      const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
+      if (get().isObjectLocked(selectedObj?.id || '')) return state;
+
+      const { vertices, initialPositions, origin, normal } = state.draggedFace;
+      const target = position.clone();
+
+      if (!free) {
+        const step = getSnapStep(state.snapping, 'translate');
+        // Constrain the move to the line through the face center along its normal,
+        // snapping the distance moved rather than the position
+        if (state.faceDragMode === 'normal') {
+          let distance = target.clone().sub(origin).dot(normal);
+          if (step) distance = snapValue(distance, step);
+          target.copy(origin).addScaledVector(normal, distance);
+        } else if (step) {
+          snapVector(target, step);
+        }
+      }
+
+      // Offsets are applied in local space so scaled or rotated objects behave
+      const inverseMatrix = state.selectedObject.matrixWorld.clone().invert();
+      const offset = target.clone().applyMatrix4(inverseMatrix)
+        .sub(origin.clone().applyMatrix4(inverseMatrix));
+
+      const geometry = state.selectedObject.geometry;
+      const positions = geometry.attributes.position;
+      vertices.forEach((vertexIndex, i) => {
+        const newPos = initialPositions[i].clone().add(offset);
+        positions.setXYZ(vertexIndex, newPos.x, newPos.y, newPos.z);
+      });
 
-      state.selectedObject.geometry.dispose();
-      state.selectedObject.geometry = newGeometry;
+      positions.needsUpdate = true;
+      geometry.computeVertexNormals();
+      geometry.computeBoundingSphere();
+
+      return {
+        draggedFace: {
+          ...state.draggedFace,
+          position: target
+        }
+      };
+    }),
+
+  endFaceDrag: () => {
+    set({ draggedFace: null });
+    get().commitHistoryStep();
+  },
+
+  setFaceDragMode: (mode) => set({ faceDragMode: mode }),
+
+  setSnapping: (changes) => set((state) => ({ snapping: { ...state.snapping, ...changes } })),
+
+  setKeyBinding: (id, keys) => {
+    const keyBindings = { ...get().keyBindings, [id]: keys };
+    saveKeyBindings(keyBindings);
+    set({ keyBindings });
+  },
+
+  resetKeyBindings: () => {
+    const keyBindings = getDefaultKeyBindings();
+    saveKeyBindings(keyBindings);
+    set({ keyBindings });
+  },
+
+  setKeymapEditorOpen: (open) => set({ keymapEditorOpen: open }),
+
+  extrudeFace: (distance) => {
+    const state = get();
+    if (!(state.selectedObject instanceof THREE.Mesh)) return;
+
+    // Check if selected object is locked
+    const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
+    if (state.isObjectLocked(selectedObj?.id || '')) return;
+
+    const mesh = state.selectedObject;
+    let preview = state.extrudePreview;
+    if (!preview) {
+      if (state.selectedElements.faces.length === 0) return;
+      // The whole preview session becomes a single undo step
+      state.beginHistoryStep('Extrude Faces');
+      preview = {
+        baseGeometry: mesh.geometry,
+        faces: [...state.selectedElements.faces],
+        distance: 0
+      };
+    }
+
+    const previous = mesh.geometry;
+    replaceGeometry(state.objects, previous, extrudeFaces(preview.baseGeometry, preview.faces, distance));
+    if (previous !== preview.baseGeometry) previous.dispose();
+    set({ extrudePreview: { ...preview, distance } });
+  },
+
+  applyExtrude: () => {
+    if (!get().extrudePreview) return;
+    // The extruded faces keep their indices, so the selection now holds the caps
+    set({ extrudePreview: null, editMode: 'face' });
+    get().commitHistoryStep();
+  },
+
+  cancelExtrude: () => {
+    const { extrudePreview, selectedObject, objects } = get();
+    if (!extrudePreview) return;
+
+    if (selectedObject instanceof THREE.Mesh && selectedObject.geometry !== extrudePreview.baseGeometry) {
+      const previous = selectedObject.geometry;
+      replaceGeometry(objects, previous, extrudePreview.baseGeometry);
+      previous.dispose();
+    }
+    set({ extrudePreview: null, editMode: 'face' });
+    get().commitHistoryStep();
+  },
+
+  bevelEdge: (segments, width) => {
+    const state = get();
+    if (!(state.selectedObject instanceof THREE.Mesh)) return;
+
+    // Check if selected object is locked
+    const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
+    if (state.isObjectLocked(selectedObj?.id || '')) return;
+
+    const mesh = state.selectedObject;
+    let preview = state.bevelPreview;
+    if (!preview) {
+      const selectedEdges = state.selectedElements.edges;
+      if (selectedEdges.length === 0) return;
+      // The whole preview session becomes a single undo step
+      state.beginHistoryStep('Bevel Edges');
+      preview = {
+        baseGeometry: mesh.geometry,
+        edges: selectedEdges
+          .filter((_, i) => i % 2 === 0)
+          .map((vertex, i): [number, number] => [vertex, selectedEdges[i * 2 + 1]]),
+        segments,
+        width
+      };
+    }
+
+    const previous = mesh.geometry;
+    replaceGeometry(state.objects, previous, bevelEdges(preview.baseGeometry, preview.edges, width, segments));
+    if (previous !== preview.baseGeometry) previous.dispose();
+    set({ bevelPreview: { ...preview, segments, width } });
+  },
+
+  applyBevel: () => {
+    if (!get().bevelPreview) return;
+    // The beveled edges no longer exist, so the edge selection is dropped
+    set((state) => ({
+      bevelPreview: null,
+      editMode: 'edge',
+      draggedEdge: null,
+      selectedElements: { ...state.selectedElements, edges: [] }
+    }));
+    get().commitHistoryStep();
+  },
+
+  cancelBevel: () => {
+    const { bevelPreview, selectedObject, objects } = get();
+    if (!bevelPreview) return;
+
+    if (selectedObject instanceof THREE.Mesh && selectedObject.geometry !== bevelPreview.baseGeometry) {
+      const previous = selectedObject.geometry;
+      replaceGeometry(objects, previous, bevelPreview.baseGeometry);
+      previous.dispose();
+    }
+    set({ bevelPreview: null, editMode: 'edge' });
+    get().commitHistoryStep();
+  },
+
+  // Rebuilds the primitive of every selected object of the active object's
+  // shape with the changed parameters, along with their linked duplicates.
+  // Vertex edits to those objects are lost.
+  updateGeometryParameters: recorded('Edit Shape', (changes) =>
+    set((state) => {
+      const active = state.selectedObject;
+      if (!(active instanceof THREE.Mesh) || !isPrimitiveGeometry(active.geometry)) return state;
+      const type = active.geometry.type;
+
+      // Linked duplicates selected together are rebuilt once
+      const rebuilt = new Set<THREE.BufferGeometry>();
+      state.selectedObjects.forEach(object => {
+        const obj = state.objects.find(o => o.object === object);
+        if (!(object instanceof THREE.Mesh) || object.geometry.type !== type || rebuilt.has(object.geometry) ||
+            !isPrimitiveGeometry(object.geometry) || !obj || isNodeLocked(state, obj.id)) return;
+        const previous = object.geometry;
+        const parameters = clampGeometryParameters(type, { ...getGeometryParameters(previous), ...changes });
+        const geometry = createGeometry(type, parameters);
+        if (!geometry) return;
+        replaceGeometry(state.objects, previous, geometry);
+        previous.dispose();
+        rebuilt.add(geometry);
+      });
+      if (rebuilt.size === 0) return state;
 
       return {
         ...state,
@@ -541,100 +1472,165 @@ export const useSceneStore = create<SceneState>((set, get) => ({
           faces: []
         }
       };
-    }),
+    })),
+
+  addControlPoint: (position) =>
+    set((state) => ({
+      nurbs: {
+        ...state.nurbs,
+        controlPoints: [...state.nurbs.controlPoints, { position: position.clone(), weight: 1 }],
+        selectedPoint: state.nurbs.controlPoints.length
+      }
+    })),
+
+  updateControlPoint: (index, changes) =>
+    set((state) => ({
+      nurbs: {
+        ...state.nurbs,
+        controlPoints: state.nurbs.controlPoints.map((point, i) =>
+          i === index ? { ...point, ...changes } : point
+        )
+      }
+    })),
+
+  removeControlPoint: (index) =>
+    set((state) => ({
+      nurbs: {
+        ...state.nurbs,
+        controlPoints: state.nurbs.controlPoints.filter((_, i) => i !== index),
+        selectedPoint: null
+      }
+    })),
+
+  selectControlPoint: (index) =>
+    set((state) => ({ nurbs: { ...state.nurbs, selectedPoint: index } })),
+
+  setNURBSDegree: (degree) =>
+    set((state) => ({ nurbs: { ...state.nurbs, degree } })),
+
+  setNURBSColumns: (columns) =>
+    set((state) => ({ nurbs: { ...state.nurbs, columns } })),
+
+  clearControlPoints: () =>
+    set((state) => ({ nurbs: { ...state.nurbs, controlPoints: [], selectedPoint: null } })),
+
+  createNURBSCurve: () => {
+    const { controlPoints, degree } = get().nurbs;
+    const curve = buildNURBSCurve(controlPoints, degree);
+    if (!curve) return;
+
+    addNURBSMesh(createCurveGeometry(curve, controlPoints.length), 'NURBS Curve', THREE.FrontSide);
+  },
+
+  createNURBSSurface: () => {
+    const { controlPoints, columns, degree } = get().nurbs;
+    const surface = buildNURBSSurface(controlPoints, columns, degree);
+    if (!surface) return;
+
+    // Surfaces are open sheets, so both sides are drawn
+    addNURBSMesh(createSurfaceGeometry(surface), 'NURBS Surface', THREE.DoubleSide);
+  },
+
+  booleanObjects: (operation, objectIds, operands) => {
+    const state = get();
+    const inputs = objectIds
+      .map(id => state.objects.find(obj => obj.id === id))
+      .filter((obj): obj is SceneObject => obj !== undefined);
+
+    // Locked objects can't be used up by an operation
+    if (inputs.length < 2 ||
+        inputs.some(obj => !(obj.object instanceof THREE.Mesh) || state.isObjectLocked(obj.id))) {
+      return null;
+    }
+
+    const result = computeBoolean(inputs.map(obj => obj.object as THREE.Mesh), operation);
+    if (!result) return null;
+
+    const label = { union: 'Union', subtract: 'Subtract', intersect: 'Intersect' }[operation];
+    state.beginHistoryStep(`Boolean ${label}`, true);
+    const id = state.addObject(result, label);
+    inputs.forEach(obj => {
+      if (operands === 'hide' && obj.visible) state.toggleVisibility(obj.id);
+      if (operands === 'delete') state.removeObject(obj.id);
+    });
+    state.setSelectedObject(result);
+    state.commitHistoryStep();
+    return id;
+  },
 
   // Group management functions
-  createGroup: (name, objectIds = []) =>
+  createGroup: recorded('Create Group', (name, objectIds = []) =>
     set((state) => {
+      const members = state.objects.filter(obj => objectIds.includes(obj.id));
+
+      // The group goes where its members all are, or at the top level, with
+      // its pivot at the middle of their origins
+      const parentIds = new Set(members.map(getParentId));
+      const parentId = parentIds.size === 1 ? [...parentIds][0] : undefined;
+      const parent = parentId ? findNode(state, parentId) : undefined;
+      const groupParentId = parent && isGroupNode(parent) ? parent.id : undefined;
+
+      const object = new THREE.Group();
+      if (members.length > 0) {
+        const parentInverse = parent ? getNodeWorldMatrix(state, parent).invert() : new THREE.Matrix4();
+        members.forEach(obj => {
+          object.position.add(new THREE.Vector3().setFromMatrixPosition(getNodeWorldMatrix(state, obj)));
+        });
+        object.position.divideScalar(members.length).applyMatrix4(parentInverse);
+      }
+
       const newGroup: Group = {
         id: crypto.randomUUID(),
         name,
         expanded: true,
         visible: true,
         locked: false,
-        objectIds: [...objectIds]
+        objectIds: [],
+        parentId: groupParentId,
+        object
       };
 
-      // Update objects to be part of this group
-      const updatedObjects = state.objects.map(obj => 
-        objectIds.includes(obj.id) 
-          ? { ...obj, groupId: newGroup.id }
-          : obj
-      );
-
-      return {
-        groups: [...state.groups, newGroup],
-        objects: updatedObjects
-      };
-    }),
+      const groups = [...state.groups, newGroup];
+      if (members.length === 0) return { groups };
+      return reparentNodes({ ...state, groups }, members.map(obj => obj.id), newGroup.id) ?? { groups };
+    })),
 
-  removeGroup: (groupId) =>
+  removeGroup: recorded('Delete Group', (groupId) =>
     set((state) => {
       const groupToRemove = state.groups.find(g => g.id === groupId);
-      if (groupToRemove?.locked) return state;
-
-      // Remove group reference from objects
-      const updatedObjects = state.objects.map(obj => 
-        obj.groupId === groupId 
-          ? { ...obj, groupId: undefined }
-          : obj
-      );
+      if (!groupToRemove || isNodeLocked(state, groupId)) return state;
+
+      // What was in the group stays where it is, in the group's own parent
+      const childIds = [
+        ...state.groups.filter(group => group.parentId === groupId).map(group => group.id),
+        ...groupToRemove.objectIds
+      ];
+      const reparented = childIds.length > 0
+        ? reparentNodes(state, childIds, groupToRemove.parentId ?? null)
+        : state;
+      if (!reparented) return state;
 
       return {
-        groups: state.groups.filter(group => group.id !== groupId),
-        objects: updatedObjects
+        groups: reparented.groups.filter(group => group.id !== groupId),
+        objects: reparented.objects
       };
-    }),
+    })),
 
-  addObjectToGroup: (objectId, groupId) =>
+  addObjectToGroup: recorded('Add to Group', (objectId, groupId) =>
     set((state) => {
-      const objectToMove = state.objects.find(obj => obj.id === objectId);
-      const targetGroup = state.groups.find(g => g.id === groupId);
-      
-      // Check if object is locked or target group is locked
-      if (objectToMove?.locked || targetGroup?.locked) return state;
-
-      const updatedObjects = state.objects.map(obj =>
-        obj.id === objectId ? { ...obj, groupId } : obj
-      );
-
-      const updatedGroups = state.groups.map(group =>
-        group.id === groupId 
-          ? { ...group, objectIds: [...group.objectIds, objectId] }
-          : group
-      );
-
-      return {
-        objects: updatedObjects,
-        groups: updatedGroups
-      };
-    }),
+      // Nothing happens if the object or the group is locked
+      return reparentNodes(state, [objectId], groupId) ?? state;
+    })),
 
-  removeObjectFromGroup: (objectId) =>
+  removeObjectFromGroup: recorded('Remove from Group', (objectId) =>
     set((state) => {
       const obj = state.objects.find(o => o.id === objectId);
       if (!obj?.groupId) return state;
 
+      // The object moves up into the group's own parent
       const group = state.groups.find(g => g.id === obj.groupId);
-      
-      // Check if object is locked or group is locked
-      if (obj.locked || group?.locked) return state;
-
-      const updatedObjects = state.objects.map(o =>
-        o.id === objectId ? { ...o, groupId: undefined } : o
-      );
-
-      const updatedGroups = state.groups.map(group =>
-        group.id === obj.groupId
-          ? { ...group, objectIds: group.objectIds.filter(id => id !== objectId) }
-          : group
-      );
-
-      return {
-        objects: updatedObjects,
-        groups: updatedGroups
-      };
-    }),
+      return reparentNodes(state, [objectId], group?.parentId ?? null) ?? state;
+    })),
 
   toggleGroupExpanded: (groupId) =>
     set((state) => ({
@@ -643,42 +1639,27 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       )
     })),
 
-  toggleGroupVisibility: (groupId) =>
+  toggleGroupVisibility: recorded('Toggle Group Visibility', (groupId) =>
     set((state) => {
       const group = state.groups.find(g => g.id === groupId);
-      if (!group || group.locked) return state;
-
-      const newVisibility = !group.visible;
+      if (!group || isNodeLocked(state, groupId)) return state;
 
-      // Update group visibility
+      // Members keep their own visibility; a hidden group hides them all
       const updatedGroups = state.groups.map(g =>
-        g.id === groupId ? { ...g, visible: newVisibility } : g
+        g.id === groupId ? { ...g, visible: !g.visible } : g
       );
 
-      // Update all objects in the group
-      const updatedObjects = state.objects.map(obj =>
-        group.objectIds.includes(obj.id) 
-          ? { ...obj, visible: newVisibility }
-          : obj
-      );
-
-      // Clear selection if selected object becomes invisible
-      const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
-      const newSelectedObject = (selectedObj && group.objectIds.includes(selectedObj.id) && !newVisibility)
-        ? null
-        : state.selectedObject;
-
+      // Objects that become invisible drop out of the selection
       return {
         groups: updatedGroups,
-        objects: updatedObjects,
-        selectedObject: newSelectedObject
+        ...pruneSelection(state.objects, updatedGroups, state.selectedObjects, state.selectedObject)
       };
-    }),
+    })),
 
-  toggleGroupLock: (groupId) =>
+  toggleGroupLock: recorded('Toggle Group Lock', (groupId) =>
     set((state) => {
       const group = state.groups.find(g => g.id === groupId);
-      if (!group) return state;
+      if (!group || (group.parentId && isNodeLocked(state, group.parentId))) return state;
 
       const newLockState = !group.locked;
 
@@ -687,95 +1668,86 @@ export const useSceneStore = create<SceneState>((set, get) => ({
         g.id === groupId ? { ...g, locked: newLockState } : g
       );
 
-      // Clear selection if selected object is in a group that becomes locked
-      const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
-      const newSelectedObject = (selectedObj && group.objectIds.includes(selectedObj.id) && newLockState)
-        ? null
-        : state.selectedObject;
-
+      // Objects in a group that becomes locked drop out of the selection
       return {
         groups: updatedGroups,
-        selectedObject: newSelectedObject
+        ...pruneSelection(state.objects, updatedGroups, state.selectedObjects, state.selectedObject)
       };
-    }),
+    })),
 
-  updateGroupName: (groupId, name) =>
+  updateGroupName: recorded('Rename Group', (groupId, name) =>
     set((state) => {
-      const group = state.groups.find(g => g.id === groupId);
-      if (group?.locked) return state;
+      if (isNodeLocked(state, groupId)) return state;
 
       return {
         groups: state.groups.map(group =>
           group.id === groupId ? { ...group, name } : group
         )
       };
-    }),
-
-  moveObjectsToGroup: (objectIds, groupId) =>
-    set((state) => {
-      // Check if any objects are locked
-      const lockedObjects = objectIds.filter(id => {
-        const obj = state.objects.find(o => o.id === id);
-        return obj?.locked || (obj?.groupId && state.groups.find(g => g.id === obj.groupId)?.locked);
-      });
+    })),
 
-      if (lockedObjects.length > 0) return state;
+  moveObjectsToGroup: recorded('Move to Group', (objectIds, groupId) =>
+    set((state) => reparentNodes(state, objectIds, groupId) ?? state)),
+
+  setParent: recorded('Set Parent', (ids, parentId) =>
+    set((state) => reparentNodes(state, ids, parentId) ?? state)),
+
+  // History functions
+  undo: () => {
+    get().commitHistoryStep();
+    const { history, selectedObject, selectedObjects } = get();
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return;
+
+    const restored = restoreSnapshot(entry.before);
+    set({
+      ...restored,
+      ...clearedEditState,
+      ...pruneSelection(restored.objects, restored.groups, selectedObjects, selectedObject),
+      history: {
+        past: history.past.slice(0, -1),
+        future: [entry, ...history.future]
+      }
+    });
+  },
 
-      // Check if target group is locked
-      if (groupId) {
-        const targetGroup = state.groups.find(g => g.id === groupId);
-        if (targetGroup?.locked) return state;
+  redo: () => {
+    get().commitHistoryStep();
+    const { history, selectedObject, selectedObjects } = get();
+    const entry = history.future[0];
+    if (!entry) return;
+
+    const restored = restoreSnapshot(entry.after);
+    set({
+      ...restored,
+      ...clearedEditState,
+      ...pruneSelection(restored.objects, restored.groups, selectedObjects, selectedObject),
+      history: {
+        past: [...history.past, entry],
+        future: history.future.slice(1)
       }
+    });
+  },
 
-      // Remove objects from their current groups
-      const updatedGroups = state.groups.map(group => ({
-        ...group,
-        objectIds: group.objectIds.filter(id => !objectIds.includes(id))
-      }));
+  beginHistoryStep: (label, grouping = false) => {
+    get().commitHistoryStep();
+    set({ pendingHistory: { label, before: captureSnapshot(get()), grouping } });
+  },
 
-      // Add objects to the new group if specified
-      const finalGroups = groupId 
-        ? updatedGroups.map(group =>
-            group.id === groupId
-              ? { ...group, objectIds: [...group.objectIds, ...objectIds] }
-              : group
-          )
-        : updatedGroups;
-
-      // Update objects
-      const updatedObjects = state.objects.map(obj =>
-        objectIds.includes(obj.id) 
-          ? { ...obj, groupId }
-          : obj
-      );
+  commitHistoryStep: () => {
+    const { pendingHistory } = get();
+    if (!pendingHistory) return;
 
-      return {
-        groups: finalGroups,
-        objects: updatedObjects
-      };
-    }),
+    set({ pendingHistory: null });
+    pushHistory(pendingHistory.label, pendingHistory.before);
+  },
 
   // Helper functions
-  isObjectLocked: (objectId) => {
-    const state = get();
-    const obj = state.objects.find(o => o.id === objectId);
-    if (!obj) return false;
-
-    // Check if object itself is locked
-    if (obj.locked) return true;
-
-    // Check if object is in a locked group
-    if (obj.groupId) {
-      const group = state.groups.find(g => g.id === obj.groupId);
-      return group?.locked || false;
-    }
-
-    return false;
-  },
+  // Locked itself or anywhere above it. Works for groups too.
+  isObjectLocked: (objectId) => isNodeLocked(get(), objectId),
 
   canSelectObject: (object) => {
-    const state = get();
-    const obj = state.objects.find(o => o.object === object);
-    return obj ? !get().isObjectLocked(obj.id) : true;
+    const node = findNodeByObject(get(), object);
+    return node ? !isNodeLocked(get(), node.id) : true;
   },
-}));
\ No newline at end of file
+}));
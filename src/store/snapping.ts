@@ -0,0 +1,49 @@
+import * as THREE from 'three';
+
+// Cell size of the viewport grid, the default step for moves
+export const GRID_CELL_SIZE = 1;
+
+export interface SnapSettings {
+  // Grid and increment snapping
+  enabled: boolean;
+  // Vertex drags snap to vertices, edges and faces of other objects
+  elements: boolean;
+  // Holding Ctrl turns snapping off, or grid snapping on when nothing is enabled
+  override: boolean;
+  translate: number;
+  // Degrees
+  rotate: number;
+  scale: number;
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  enabled: false,
+  elements: false,
+  override: false,
+  translate: GRID_CELL_SIZE,
+  rotate: 15,
+  scale: 0.1
+};
+
+export const isSnapping = ({ enabled, elements, override }: SnapSettings) =>
+  override ? !enabled && !elements : enabled;
+
+export const isElementSnapping = ({ elements, override }: SnapSettings) => elements && !override;
+
+// The step to snap to, or null while snapping is off. Rotation steps are
+// returned in radians, the way TransformControls expects them.
+export const getSnapStep = (settings: SnapSettings, kind: 'translate' | 'rotate' | 'scale') => {
+  if (!isSnapping(settings)) return null;
+  return kind === 'rotate' ? THREE.MathUtils.degToRad(settings.rotate) : settings[kind];
+};
+
+export const snapValue = (value: number, step: number) => Math.round(value / step) * step;
+
+export const snapVector = (vector: THREE.Vector3, step: number) =>
+  vector.set(snapValue(vector.x, step), snapValue(vector.y, step), snapValue(vector.z, step));
+
+// Snaps a dragged world position to the translate step, if snapping is on
+export const snapPosition = (position: THREE.Vector3, settings: SnapSettings) => {
+  const step = getSnapStep(settings, 'translate');
+  return step ? snapVector(position.clone(), step) : position.clone();
+};
@@ -0,0 +1,111 @@
+import * as THREE from 'three';
+import { type RootState, createPointerEvents } from '@react-three/fiber';
+import { type CameraPerspective, useSceneStore } from './sceneStore';
+
+// Orthographic views are framed by zoom, so the camera just has to stay
+// clear of the scene
+export const ORTHOGRAPHIC_DISTANCE = 100;
+
+export const TRANSITION_SECONDS = 0.35;
+// Framed bounds get this much room around them
+export const FRAME_PADDING = 1.2;
+// Framing a single point still shows its surroundings
+export const MIN_FRAME_RADIUS = 0.5;
+
+// Direction from the target to the camera, and the camera's up vector
+export const CAMERA_VIEWS: Record<CameraPerspective, { direction: THREE.Vector3; up: THREE.Vector3 }> = {
+  perspective: { direction: new THREE.Vector3(1, 1, 1).normalize(), up: new THREE.Vector3(0, 1, 0) },
+  front: { direction: new THREE.Vector3(0, 0, 1), up: new THREE.Vector3(0, 1, 0) },
+  back: { direction: new THREE.Vector3(0, 0, -1), up: new THREE.Vector3(0, 1, 0) },
+  right: { direction: new THREE.Vector3(1, 0, 0), up: new THREE.Vector3(0, 1, 0) },
+  left: { direction: new THREE.Vector3(-1, 0, 0), up: new THREE.Vector3(0, 1, 0) },
+  top: { direction: new THREE.Vector3(0, 1, 0), up: new THREE.Vector3(0, 0, -1) },
+  bottom: { direction: new THREE.Vector3(0, -1, 0), up: new THREE.Vector3(0, 0, 1) }
+};
+
+export type ViewportLayout = 'single' | 'quad';
+export type ViewportPane = 'top' | 'front' | 'right' | 'perspective';
+
+// Quad layout panes in reading order: top and front above, right and
+// perspective below. The single layout shows just the perspective pane.
+export const VIEWPORT_PANES: ViewportPane[] = ['top', 'front', 'right', 'perspective'];
+
+export interface ViewportState {
+  viewportLayout: ViewportLayout;
+  maximizedViewport: ViewportPane | null;
+  activeViewport: ViewportPane;
+}
+
+type LayoutState = Pick<ViewportState, 'viewportLayout' | 'maximizedViewport'>;
+
+export const getVisibleViewports = ({ viewportLayout, maximizedViewport }: LayoutState): ViewportPane[] => {
+  if (viewportLayout === 'single') return ['perspective'];
+  return maximizedViewport ? [maximizedViewport] : VIEWPORT_PANES;
+};
+
+// The pane picking and gizmos work in, falling back to a visible one
+export const getActiveViewport = (state: ViewportState) => {
+  const visible = getVisibleViewports(state);
+  return visible.includes(state.activeViewport) ? state.activeViewport : visible[0];
+};
+
+// Pixel rectangle of a pane within the canvas, measured from its top left
+export const getViewportRect = (pane: ViewportPane, state: LayoutState, size: { width: number; height: number }) => {
+  if (getVisibleViewports(state).length === 1) {
+    return { left: 0, top: 0, width: size.width, height: size.height };
+  }
+  const index = VIEWPORT_PANES.indexOf(pane);
+  const width = size.width / 2;
+  const height = size.height / 2;
+  return { left: (index % 2) * width, top: Math.floor(index / 2) * height, width, height };
+};
+
+const getViewportAt = (state: LayoutState, x: number, y: number, size: { width: number; height: number }) =>
+  getVisibleViewports(state).find(pane => {
+    const rect = getViewportRect(pane, state, size);
+    return x >= rect.left && x < rect.left + rect.width && y >= rect.top && y < rect.top + rect.height;
+  });
+
+export interface ViewportView {
+  camera: THREE.PerspectiveCamera | THREE.OrthographicCamera;
+  controls: THREE.EventDispatcher | null;
+  // Moves the view to fit world bounds, keeping its direction
+  frame: (bounds: THREE.Box3) => void;
+}
+
+// The camera and orbit controls of each mounted pane. Panes register these
+// themselves; picking and rendering look them up.
+const views = new Map<ViewportPane, ViewportView>();
+
+export const setViewportView = (pane: ViewportPane, view: ViewportView | null) => {
+  if (view) {
+    views.set(pane, view);
+  } else {
+    views.delete(pane);
+  }
+};
+
+export const getViewportView = (pane: ViewportPane) => views.get(pane);
+
+// Pointer events for the canvas that raycast from the pane under the
+// pointer. Hovering picks the active pane; a drag stays in the pane it
+// started in, even when it leaves it.
+export const createViewportEvents = (store: Parameters<typeof createPointerEvents>[0]) => ({
+  ...createPointerEvents(store),
+  compute: (event: MouseEvent, state: RootState) => {
+    const bounds = state.gl.domElement.getBoundingClientRect();
+    const x = event.clientX - bounds.left;
+    const y = event.clientY - bounds.top;
+
+    const scene = useSceneStore.getState();
+    if (event.type === 'pointerdown' || (event.type === 'pointermove' && event.buttons === 0)) {
+      const hovered = getViewportAt(scene, x, y, state.size);
+      if (hovered && hovered !== scene.activeViewport) scene.setActiveViewport(hovered);
+    }
+
+    const pane = getActiveViewport(useSceneStore.getState());
+    const rect = getViewportRect(pane, scene, state.size);
+    state.pointer.set(((x - rect.left) / rect.width) * 2 - 1, -((y - rect.top) / rect.height) * 2 + 1);
+    state.raycaster.setFromCamera(state.pointer, getViewportView(pane)?.camera ?? state.camera);
+  }
+});
@@ -0,0 +1,8 @@
+export const downloadFile = (contents: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
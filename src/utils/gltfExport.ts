@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import type { Group, SceneObject } from '../store/sceneStore';
+import { attachLightTarget } from '../store/lights';
+import { type HierarchyNode, findNode, getAncestry, getParentId, isNodeShown } from '../store/hierarchy';
+
+interface ExportOptions {
+  binary: boolean;
+  // When given, only these objects are exported
+  selection?: THREE.Object3D[];
+}
+
+// Builds a throwaway scene for the exporter: shown objects only, nested as
+// they are in the editor. Groups, and parents left out of the export, become
+// named empty nodes with their transforms so everything stays in place.
+const buildExportScene = (objects: SceneObject[], groups: Group[], selection?: THREE.Object3D[]) => {
+  const hierarchy = { objects, groups };
+  const scene = new THREE.Scene();
+  const nodes = new Map<string, THREE.Object3D>();
+
+  // A selected group exports everything in it
+  const isIncluded = (obj: SceneObject) =>
+    isNodeShown(hierarchy, obj.id) &&
+    (!selection || getAncestry(hierarchy, obj).some(({ object }) => selection.includes(object)));
+
+  const getNode = (entry: HierarchyNode, included: boolean): THREE.Object3D => {
+    const existing = nodes.get(entry.id);
+    if (existing) return existing;
+
+    // Cloning shares geometry and material, so edited vertices and the
+    // current color/opacity are exported as they are shown in the editor.
+    // Lights get their target back so they keep their direction.
+    const node = included ? attachLightTarget(entry.object.clone(false)) : new THREE.Object3D();
+    if (!included) {
+      node.position.copy(entry.object.position);
+      node.quaternion.copy(entry.object.quaternion);
+      node.scale.copy(entry.object.scale);
+    }
+    node.name = entry.name;
+    nodes.set(entry.id, node);
+
+    const parentId = getParentId(entry);
+    const parent = parentId ? findNode(hierarchy, parentId) : undefined;
+    (parent ? getNode(parent, false) : scene).add(node);
+    return node;
+  };
+
+  // Parents come first, so an included parent isn't made an empty node
+  objects
+    .filter(isIncluded)
+    .sort((a, b) => getAncestry(hierarchy, a).length - getAncestry(hierarchy, b).length)
+    .forEach(obj => getNode(obj, true));
+
+  return scene;
+};
+
+export const exportGLTF = async (objects: SceneObject[], groups: Group[], { binary, selection }: ExportOptions) => {
+  const scene = buildExportScene(objects, groups, selection);
+  const result = await new GLTFExporter().parseAsync(scene, { binary, onlyVisible: true });
+
+  return binary
+    ? new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' })
+    : new Blob([JSON.stringify(result, null, 2)], { type: 'model/gltf+json' });
+};
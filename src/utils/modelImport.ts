@@ -0,0 +1,170 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { useSceneStore } from '../store/sceneStore';
+
+export const IMPORT_EXTENSIONS = ['.obj', '.stl', '.gltf', '.glb'];
+// Files a .gltf can point to. They are picked or dropped together with it.
+export const RESOURCE_EXTENSIONS = ['.bin', '.png', '.jpg', '.jpeg', '.webp'];
+
+// Companion files by name, as object URLs
+type ResourceFiles = Map<string, string>;
+
+interface ImportedMesh {
+  mesh: THREE.Mesh;
+  name: string;
+  // The node the mesh sat under in the file, and the name to give its Group
+  parent?: THREE.Object3D;
+  groupName?: string;
+}
+
+const getExtension = (fileName: string) => fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+
+const getBaseName = (fileName: string) => fileName.slice(0, fileName.lastIndexOf('.')) || fileName;
+
+// The editor works with MeshStandardMaterials (the material panel, history
+// and scene files rely on it), so anything else is converted
+const convertMaterial = (source: THREE.Material) => {
+  if (source instanceof THREE.MeshStandardMaterial) return source;
+
+  const converted = new THREE.MeshStandardMaterial({ color: 0x44aa88 });
+  if ('color' in source && source.color instanceof THREE.Color) {
+    converted.color.copy(source.color);
+  }
+  converted.opacity = source.opacity;
+  converted.transparent = source.opacity < 1;
+  return converted;
+};
+
+// Meshes with several materials keep all of them, one per geometry group,
+// like boolean results
+const toStandardMaterial = (material: THREE.Material | THREE.Material[]) =>
+  Array.isArray(material) ? material.map(convertMaterial) : convertMaterial(material);
+
+// Welds duplicated vertices so vertex and edge editing work on imported meshes
+// the same way they do on the built-in primitives.
+const toEditableGeometry = (geometry: THREE.BufferGeometry) => {
+  const editable = mergeVertices(geometry.clone());
+  if (!editable.attributes.normal) {
+    editable.computeVertexNormals();
+  }
+  return editable;
+};
+
+// Flattens the loaded hierarchy into standalone meshes, baking each node's
+// world transform into the mesh and remembering the node it sat under.
+const collectMeshes = (root: THREE.Object3D, fileName: string): ImportedMesh[] => {
+  const meshes: ImportedMesh[] = [];
+  const baseName = getBaseName(fileName);
+  root.updateMatrixWorld(true);
+
+  root.traverse((node) => {
+    if (!(node instanceof THREE.Mesh) || node instanceof THREE.SkinnedMesh) return;
+
+    const mesh = new THREE.Mesh(toEditableGeometry(node.geometry), toStandardMaterial(node.material));
+    node.matrixWorld.decompose(mesh.position, mesh.quaternion, mesh.scale);
+
+    const parent = node.parent && node.parent !== root ? node.parent : undefined;
+    meshes.push({
+      mesh,
+      name: node.name || `${baseName} ${meshes.length + 1}`,
+      parent,
+      groupName: parent ? parent.name || baseName : undefined,
+    });
+  });
+
+  return meshes;
+};
+
+// The buffers and images a .gltf refers to by file name. Embedded data URIs
+// need no companion file.
+const getExternalUris = (json: { buffers?: Array<{ uri?: string }>; images?: Array<{ uri?: string }> }) =>
+  [...(json.buffers ?? []), ...(json.images ?? [])]
+    .flatMap(({ uri }) => uri && !uri.startsWith('data:') ? [decodeURIComponent(uri)] : []);
+
+const getFileName = (uri: string) => uri.slice(uri.lastIndexOf('/') + 1);
+
+const loadGLTF = async (file: File, resources: ResourceFiles) => {
+  const data = await file.arrayBuffer();
+  if (getExtension(file.name) === '.gltf') {
+    const missing = getExternalUris(JSON.parse(new TextDecoder().decode(data)))
+      .filter(uri => !resources.has(getFileName(uri)));
+    if (missing.length > 0) {
+      throw new Error(`Needs ${missing.join(', ')}. Select or drop them together with the .gltf file.`);
+    }
+  }
+
+  // Relative URIs are resolved against the companion files by name
+  const manager = new THREE.LoadingManager();
+  manager.setURLModifier(url => resources.get(getFileName(decodeURIComponent(url))) ?? url);
+  const gltf = await new GLTFLoader(manager).parseAsync(data, '');
+  return gltf.scene;
+};
+
+const loadModel = async (file: File, resources: ResourceFiles): Promise<THREE.Object3D> => {
+  switch (getExtension(file.name)) {
+    case '.obj':
+      return new OBJLoader().parse(await file.text());
+    case '.stl': {
+      const geometry = new STLLoader().parse(await file.arrayBuffer());
+      const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color: 0x44aa88 }));
+      mesh.name = getBaseName(file.name);
+      const group = new THREE.Group();
+      group.add(mesh);
+      return group;
+    }
+    case '.gltf':
+    case '.glb':
+      return loadGLTF(file, resources);
+    default:
+      throw new Error(`Unsupported file type "${getExtension(file.name)}"`);
+  }
+};
+
+const isModelFile = (file: File) => IMPORT_EXTENSIONS.includes(getExtension(file.name));
+
+export const isImportableFile = (file: File) =>
+  isModelFile(file) || RESOURCE_EXTENSIONS.includes(getExtension(file.name));
+
+// Loads each model file and adds its meshes to the scene as a single undo
+// step. The other files are resources the models may refer to. Meshes that
+// shared a parent node in the file are placed in one Group.
+export const importModelFiles = async (files: File[]) => {
+  const loaded: ImportedMesh[] = [];
+  const failures: string[] = [];
+  const resources: ResourceFiles = new Map(
+    files.filter(file => !isModelFile(file)).map(file => [file.name, URL.createObjectURL(file)])
+  );
+
+  for (const file of files.filter(isModelFile)) {
+    try {
+      loaded.push(...collectMeshes(await loadModel(file, resources), file.name));
+    } catch (error) {
+      failures.push(`${file.name}: ${(error as Error).message}`);
+    }
+  }
+  resources.forEach(url => URL.revokeObjectURL(url));
+
+  if (loaded.length > 0) {
+    const { beginHistoryStep, commitHistoryStep, addObject, createGroup } = useSceneStore.getState();
+    const groupMembers = new Map<THREE.Object3D, { name: string; objectIds: string[] }>();
+
+    beginHistoryStep('Import Model', true);
+    loaded.forEach(({ mesh, name, parent, groupName }) => {
+      const id = addObject(mesh, name);
+      if (parent && groupName) {
+        const members = groupMembers.get(parent) || { name: groupName, objectIds: [] };
+        members.objectIds.push(id);
+        groupMembers.set(parent, members);
+      }
+    });
+    groupMembers.forEach(({ name, objectIds }) => createGroup(name, objectIds));
+    commitHistoryStep();
+  }
+
+  if (failures.length > 0) {
+    window.alert(`Could not import:\n${failures.join('\n')}`);
+  }
+};